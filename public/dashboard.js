@@ -0,0 +1,300 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Dashboard for pdjr-ais-reporter. Endpoint status and the reports
+ * sent to each endpoint arrive as server-sent events from the plugin's
+ * '/events' route; everything else uses the plugin's REST API.
+ */
+
+const API = '/plugins/ais-reporter';
+const TRAFFIC_ROWS = 50;
+const LIVE_POINTS = 60;
+const HISTORY_HOURS = 24;
+const HISTORY_REFRESH_INTERVAL = 300000;
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+var state = {
+  status: {},
+  selected: undefined,
+  traffic: {},
+  live: {},
+  lastTotal: {},
+  messages: {},
+  expanded: new Set()
+};
+
+/**
+ * Open the event stream. The browser reconnects automatically if the
+ * stream is lost and the plugin sends the current status whenever a
+ * client connects.
+ */
+function openEvents() {
+  var events = new EventSource(`${API}/events`);
+
+  events.addEventListener('open', () => setConnection('live'));
+  events.addEventListener('error', () => setConnection((events.readyState == EventSource.CLOSED)?'disconnected':'connecting'));
+  events.addEventListener('status', (e) => onStatus(JSON.parse(e.data)));
+  events.addEventListener('traffic', (e) => onTraffic(JSON.parse(e.data)));
+}
+
+function setConnection(text) {
+  var badge = document.getElementById('connection');
+
+  badge.textContent = text;
+  badge.className = `badge ${text}`;
+}
+
+/**
+ * Handle a status event, recording the bytes sent to each endpoint
+ * since the previous event for the endpoint's live sparkline.
+ */
+function onStatus(status) {
+  Object.keys(status).forEach((name) => {
+    let total = status[name].totalBytesTransmitted;
+
+    if (!state.live[name]) state.live[name] = [];
+    if (state.lastTotal[name] !== undefined) state.live[name].push(Math.max(0, total - state.lastTotal[name]));
+    if (state.live[name].length > LIVE_POINTS) state.live[name].shift();
+    state.lastTotal[name] = total;
+  });
+  state.status = status;
+  if ((state.selected) && (!status[state.selected])) select(undefined);
+  renderEndpoints();
+}
+
+/**
+ * Handle a traffic event by adding the report to the traffic shown
+ * for its endpoint.
+ */
+function onTraffic(report) {
+  var traffic = state.traffic[report.endpoint];
+
+  if (!traffic) return;
+  traffic.push(report);
+  if (traffic.length > TRAFFIC_ROWS) traffic.splice(0, traffic.length - TRAFFIC_ROWS);
+  if (report.endpoint == state.selected) renderTraffic();
+}
+
+function renderEndpoints() {
+  var container = document.getElementById('endpoints');
+
+  container.replaceChildren(...Object.keys(state.status).map((name) => renderEndpoint(name, state.status[name])));
+  if (Object.keys(state.status).length == 0) container.append(el('p', {}, 'No endpoints are configured.'));
+}
+
+function renderEndpoint(name, status) {
+  var badges = [ el('span', { class: `badge ${status.health.state}`, title: status.health.reason || 'health' }, status.health.state) ];
+  var profiles = Object.keys(status.profiles || {}).map((group) => `${group}: ${status.profiles[group].active}`);
+
+  if (status.connection) badges.push(el('span', { class: `badge ${status.connection.state}`, title: 'connection' }, status.connection.state));
+  if (status.paused) badges.push(el('span', { class: 'badge paused' }, 'paused'));
+  if (status.dryRun) badges.push(el('span', { class: 'badge dry-run' }, 'dry run'));
+  return(el('div', { class: `card${(name == state.selected)?' selected':''}` }, [
+    el('h2', {}, [ name, ...badges ]),
+    el('dl', {}, [
+      el('dt', {}, 'Address'), el('dd', {}, ((status.connection) && (status.connection.address))?status.connection.address:`${status.ipAddress}:${status.port}`),
+      el('dt', {}, 'Sent'), el('dd', {}, `${formatBytes(status.totalBytesTransmitted)} since ${formatTime(status.started)}`),
+      el('dt', {}, 'Position'), el('dd', {}, formatRates(status.positionSelfBytesPerHour, status.positionFleetBytesPerHour, status.positionOthersBytesPerHour)),
+      el('dt', {}, 'Static'), el('dd', {}, formatRates(status.staticSelfBytesPerHour, status.staticFleetBytesPerHour, status.staticOthersBytesPerHour)),
+      ...((status.passthrough)?[ el('dt', {}, 'Relayed'), el('dd', {}, `${formatBytes(status.relayedBytesPerHour)}/h`) ]:[]),
+      el('dt', {}, 'Profiles'), el('dd', {}, profiles.join(', ')),
+      ...((status.health.reason)?[ el('dt', {}, 'Health'), el('dd', {}, status.health.reason) ]:[])
+    ]),
+    el('div', { class: 'sparkline', title: `Bytes sent per status update (last ${LIVE_POINTS})` }, [ sparkline(state.live[name] || []) ]),
+    el('div', { class: 'buttons' }, [
+      el('button', { onclick: () => select(name) }, 'Traffic'),
+      el('button', { onclick: () => testReport(name, 'position') }, 'Test position report'),
+      el('button', { onclick: () => testReport(name, 'static') }, 'Test static report'),
+      el('button', { onclick: () => setPaused(name, !status.paused) }, (status.paused)?'Resume':'Pause')
+    ]),
+    el('div', { class: 'message' }, state.messages[name] || '')
+  ]));
+}
+
+/**
+ * Select the endpoint whose throughput and traffic are shown in
+ * detail, loading its recent traffic and statistics history.
+ */
+function select(name) {
+  var detail = document.getElementById('detail');
+
+  state.selected = name;
+  state.expanded.clear();
+  detail.hidden = (name === undefined);
+  renderEndpoints();
+  if (name === undefined) return;
+  document.getElementById('detail-name').textContent = name;
+  document.getElementById('throughput').replaceChildren();
+  document.querySelector('#traffic tbody').replaceChildren();
+  request('GET', `/traffic/${encodeURIComponent(name)}?limit=${TRAFFIC_ROWS}`).then((traffic) => {
+    state.traffic[name] = traffic[name];
+    if (name == state.selected) renderTraffic();
+  }).catch((e) => setMessage(name, `cannot load traffic (${e.message})`));
+  loadHistory(name);
+}
+
+function loadHistory(name) {
+  var from = new Date(Date.now() - (HISTORY_HOURS * 3600000));
+
+  from.setUTCMinutes(0, 0, 0);
+  request('GET', `/status/history?endpoint=${encodeURIComponent(name)}&from=${from.toISOString()}&resolution=hour`).then((history) => {
+    if (name == state.selected) renderThroughput(history[name], from.getTime());
+  }).catch((e) => {
+    if (e.status == 404) renderThroughput([], from.getTime());
+    else setMessage(name, `cannot load history (${e.message})`);
+  });
+}
+
+/**
+ * Draw a bar chart of the bytes sent to the selected endpoint in each
+ * hour of the history period.
+ */
+function renderThroughput(history, from) {
+  var hours = new Array(HISTORY_HOURS + 1).fill(0);
+  var max;
+  var svg = svgEl('svg', { viewBox: `0 0 ${hours.length * 10} 100`, preserveAspectRatio: 'none' });
+
+  history.forEach((entry) => {
+    let index = Math.floor((Date.parse(entry.start) - from) / 3600000);
+
+    if ((index >= 0) && (index < hours.length)) hours[index] = getBytes(entry);
+  });
+  max = Math.max(1, ...hours);
+  hours.forEach((bytes, index) => {
+    let height = (bytes / max) * 100;
+    let bar = svgEl('rect', { x: (index * 10) + 1, y: 100 - height, width: 8, height: height });
+
+    bar.append(svgEl('title', {}, `${(new Date(from + (index * 3600000))).toLocaleString()}: ${formatBytes(bytes)}`));
+    svg.append(bar);
+  });
+  document.getElementById('throughput').replaceChildren(svg);
+}
+
+/**
+ * Show the recent traffic of the selected endpoint, newest first.
+ * Clicking a report shows or hides its decoded AIS fields.
+ */
+function renderTraffic() {
+  var rows = [];
+
+  (state.traffic[state.selected] || []).slice().reverse().forEach((report) => {
+    let key = `${report.time}:${report.type}:${report.mmsi}`;
+
+    rows.push(el('tr', { class: 'report', onclick: () => { if (!state.expanded.delete(key)) state.expanded.add(key); renderTraffic(); } }, [
+      el('td', {}, formatTime(report.time)),
+      el('td', {}, report.type),
+      el('td', {}, report.mmsi),
+      el('td', { class: 'sentences' }, report.lines.map((line) => el('div', {}, line.trim())))
+    ]));
+    if (state.expanded.has(key)) rows.push(el('tr', { class: 'decoded' }, [ el('td', { colspan: 4 }, (report.decoded || []).map(renderDecoded)) ]));
+  });
+  document.querySelector('#traffic tbody').replaceChildren(...rows);
+}
+
+function renderDecoded(message) {
+  if (!message.valid) return(el('p', {}, `Cannot decode: ${message.error}`));
+  return(el('dl', {}, Object.keys(message.fields).reduce((a, name) => a.concat([ el('dt', {}, name), el('dd', {}, `${message.fields[name]}`) ]), [])));
+}
+
+function testReport(name, type) {
+  setMessage(name, `sending ${type} report...`);
+  request('POST', `/report/${type}/${encodeURIComponent(name)}`).then((result) => {
+    let counts = Object.values(result[name]);
+    let reports = counts.reduce((a, c) => (a + c.reports), 0);
+
+    setMessage(name, `${type} report: ${reports} vessel${(reports == 1)?'':'s'} reported, ${formatBytes(counts.reduce((a, c) => (a + c.bytes), 0))} sent`);
+    if (name == state.selected) loadHistory(name);
+  }).catch((e) => setMessage(name, `${type} report failed (${e.message})`));
+}
+
+function setPaused(name, paused) {
+  request('PUT', `/endpoints/${encodeURIComponent(name)}/${(paused)?'pause':'resume'}`).then((result) => {
+    state.status[name].paused = result.paused;
+    setMessage(name, (result.paused)?'paused':'resumed');
+  }).catch((e) => setMessage(name, `cannot ${(paused)?'pause':'resume'} (${e.message})`));
+}
+
+function setMessage(name, message) {
+  state.messages[name] = message;
+  renderEndpoints();
+}
+
+/**
+ * Make a request to the plugin's API.
+ *
+ * @returns - promise of the parsed JSON response.
+ */
+function request(method, path) {
+  return(fetch(`${API}${path}`, { method: method, credentials: 'same-origin' }).then((response) => {
+    if (!response.ok) throw Object.assign(new Error((response.status == 401)?'not logged in':`${response.status} ${response.statusText}`), { status: response.status });
+    return(response.json());
+  }));
+}
+
+function getBytes(entry) {
+  return([ 'position', 'static', 'relayed' ].reduce((a, type) => (a + Object.values(entry[type] || {}).reduce((b, counts) => (b + (counts.bytes || 0)), 0)), 0));
+}
+
+function sparkline(values) {
+  var max = Math.max(1, ...values);
+  var svg = svgEl('svg', { viewBox: `0 0 ${LIVE_POINTS - 1} 100`, preserveAspectRatio: 'none' });
+
+  svg.append(svgEl('polyline', { points: values.map((v, i) => `${i + (LIVE_POINTS - values.length)},${100 - ((v / max) * 95)}`).join(' '), 'vector-effect': 'non-scaling-stroke' }));
+  return(svg);
+}
+
+function formatRates(self, fleet, others) {
+  return(`self ${formatBytes(self)}/h${(fleet)?`, fleet ${formatBytes(fleet)}/h`:''}, others ${formatBytes(others)}/h`);
+}
+
+function formatBytes(bytes) {
+  if (bytes < 1024) return(`${bytes} B`);
+  if (bytes < 1048576) return(`${(bytes / 1024).toFixed(1)} kB`);
+  return(`${(bytes / 1048576).toFixed(1)} MB`);
+}
+
+function formatTime(time) {
+  var date = new Date(time);
+
+  return((isNaN(date.getTime()))?time:date.toLocaleString());
+}
+
+/**
+ * Make an HTML element. Attributes named 'on...' are installed as
+ * event listeners and children may be elements or strings.
+ */
+function el(tag, attributes, children) {
+  var element = document.createElement(tag);
+
+  Object.keys(attributes).forEach((name) => {
+    if (name.startsWith('on')) element.addEventListener(name.slice(2), attributes[name]);
+    else element.setAttribute(name, attributes[name]);
+  });
+  element.append(...[].concat(children || []));
+  return(element);
+}
+
+function svgEl(tag, attributes, text) {
+  var element = document.createElementNS(SVG_NS, tag);
+
+  Object.keys(attributes).forEach((name) => element.setAttribute(name, attributes[name]));
+  if (text !== undefined) element.textContent = text;
+  return(element);
+}
+
+openEvents();
+setInterval(() => { if (state.selected) loadHistory(state.selected); }, HISTORY_REFRESH_INTERVAL);
@@ -0,0 +1,161 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as _ from 'lodash';
+import { mpsToKn, radsToDeg } from './AisMapper';
+
+/**
+ * Nominal AIS reporting intervals in seconds by speed band, after the
+ * autonomous SOTDMA reporting rates of ITU-R M.1371. Each entry gives
+ * the interval for vessels travelling at less than 'below' knots.
+ */
+const REPORT_RATES: { [aisClass: string]: RateBand[] } = {
+  'A': [
+    { below: 3, interval: 180 },
+    { below: 14, interval: 10 },
+    { below: 23, interval: 6 },
+    { below: Infinity, interval: 2 }
+  ],
+  'B': [
+    { below: 2, interval: 180 },
+    { below: 14, interval: 30 },
+    { below: 23, interval: 15 },
+    { below: Infinity, interval: 5 }
+  ]
+};
+const STATIONARY_STATES: string[] = [ 'anchored', 'moored', 'aground' ];
+
+/**
+ * Decides when each vessel is due a position report on the basis of
+ * its dynamics rather than a fixed interval.
+ *
+ * A vessel's nominal interval is taken from its speed band and
+ * navigational state and is bounded by the scheduler's minimum and
+ * maximum intervals, so a vessel which speeds up into a faster band
+ * is reported sooner. A vessel is also reported early if its speed,
+ * course or heading has changed by more than the configured thresholds
+ * since it was last reported, but never more often than the minimum
+ * interval allows.
+ */
+export class AdaptiveScheduler {
+
+  private options: AdaptiveOptions;
+  private vessels: Map<string, VesselState> = new Map();
+
+  constructor(options: AdaptiveOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Check whether a vessel is due a position report.
+   *
+   * @param vessel - Signal K vessel object.
+   * @param aisClass - AIS class ('A' or 'B') of the vessel.
+   * @param now - current time in milliseconds.
+   * @returns - true if the vessel should be reported now.
+   */
+  isDue(vessel: any, aisClass: string, now: number): boolean {
+    var state: VesselState = this.getState(vessel, now);
+    var last: VesselState | undefined = this.vessels.get(vessel.mmsi);
+    var elapsed: number;
+
+    if (last) {
+      elapsed = (now - last.time) / 1000;
+      if (elapsed < this.options.minimumInterval) return(false);
+      if ((elapsed < this.getInterval(aisClass, state)) && (!this.hasChanged(state, last))) return(false);
+    }
+    return(true);
+  }
+
+  /**
+   * Record that a vessel has been reported, so that its next report
+   * is scheduled from now and from its current dynamics.
+   *
+   * @param vessel - Signal K vessel object.
+   * @param now - current time in milliseconds.
+   */
+  record(vessel: any, now: number) {
+    this.vessels.set(vessel.mmsi, this.getState(vessel, now));
+  }
+
+  /**
+   * Forget vessels which have not been reported for longer than the
+   * maximum interval.
+   *
+   * @param now - current time in milliseconds.
+   */
+  expire(now: number) {
+    this.vessels.forEach((state, mmsi) => {
+      if (((now - state.time) / 1000) > (this.options.maximumInterval * 2)) this.vessels.delete(mmsi);
+    });
+  }
+
+  private getInterval(aisClass: string, state: VesselState): number {
+    var bands: RateBand[] = REPORT_RATES[aisClass] || REPORT_RATES['B'];
+    var band: RateBand = <RateBand>bands.find((band) => ((state.sog || 0) < band.below));
+    var interval: number = ((state.stationary) && ((state.sog || 0) < REPORT_RATES['A'][0].below))?bands[0].interval:band.interval;
+
+    return(Math.min(Math.max(interval, this.options.minimumInterval), this.options.maximumInterval));
+  }
+
+  private hasChanged(state: VesselState, last: VesselState): boolean {
+    if ((state.sog !== undefined) && (last.sog !== undefined) && (Math.abs(state.sog - last.sog) > this.options.speedThreshold)) return(true);
+    if ((state.cog !== undefined) && (last.cog !== undefined) && (angleBetween(state.cog, last.cog) > this.options.courseThreshold)) return(true);
+    if ((state.hdg !== undefined) && (last.hdg !== undefined) && (angleBetween(state.hdg, last.hdg) > this.options.headingThreshold)) return(true);
+    return(false);
+  }
+
+  private getState(vessel: any, now: number): VesselState {
+    var sog: any = _.get(vessel, 'navigation.speedOverGround.value', undefined);
+    var cog: any = _.get(vessel, 'navigation.courseOverGroundTrue.value', undefined);
+    var hdg: any = _.get(vessel, 'navigation.headingTrue.value', undefined);
+
+    return({
+      time: now,
+      sog: (typeof sog === 'number')?mpsToKn(sog):undefined,
+      cog: (typeof cog === 'number')?radsToDeg(cog):undefined,
+      hdg: (typeof hdg === 'number')?radsToDeg(hdg):undefined,
+      stationary: STATIONARY_STATES.includes(_.get(vessel, 'navigation.state.value', ''))
+    });
+  }
+
+}
+
+function angleBetween(a: number, b: number): number {
+  var difference: number = Math.abs(a - b) % 360;
+  return((difference > 180)?(360 - difference):difference);
+}
+
+export interface AdaptiveOptions {
+  speedThreshold: number,
+  courseThreshold: number,
+  headingThreshold: number,
+  minimumInterval: number,
+  maximumInterval: number
+}
+
+interface RateBand {
+  below: number,
+  interval: number
+}
+
+interface VesselState {
+  time: number,
+  sog: number | undefined,
+  cog: number | undefined,
+  hdg: number | undefined,
+  stationary: boolean
+}
@@ -0,0 +1,72 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AisDecode } from 'ggencoder';
+
+/**
+ * Properties of a decoded message which describe the decoding process
+ * or the transport of the message rather than AIS fields.
+ */
+const DECODER_PROPERTIES: string[] = [ 'bitarray', 'valid', 'error', 'payload', 'msglen', 'channel', 'immsi', 'mmsikey' ];
+
+/**
+ * Decode the lines which make up an AIS report (as framed for an
+ * endpoint) back into AIS message fields, so that a report can be
+ * checked against the Signal K data it was made from.
+ *
+ * Tag blocks and line endings are discarded and the sentences of a
+ * multi-sentence message are combined. A report which contains more
+ * than one message (for example the A and B parts of a type 24 static
+ * data report) yields one DecodedMessage for each.
+ *
+ * @param lines - lines of the report.
+ * @returns - array of DecodedMessage in the order they were sent.
+ */
+export function decodeReport(lines: string[]): DecodedMessage[] {
+  var retval: DecodedMessage[] = [];
+  var session: any = {};
+
+  lines.map((line) => line.trim().replace(/^\\[^\\]*\\/, '')).filter((sentence) => (sentence.length > 0)).forEach((sentence) => {
+    let fields: string[] = sentence.split(',');
+    let decoded: any;
+
+    try {
+      decoded = new AisDecode(sentence, session);
+    } catch(e: any) {
+      retval.push({ valid: false, error: `${e.message || e}`, type: undefined, fields: {} });
+      return;
+    }
+    if ((fields.length == 7) && (fields[1] != fields[2]) && (decoded.error == '')) return;
+    session = {};
+    retval.push({
+      valid: (decoded.valid === true),
+      error: (decoded.error)?decoded.error:undefined,
+      type: decoded.aistype,
+      fields: Object.keys(decoded).filter((key) => ((!DECODER_PROPERTIES.includes(key)) && (typeof decoded[key] !== 'function'))).reduce((a: { [name: string]: any }, key) => {
+        a[key] = decoded[key];
+        return(a);
+      }, {})
+    });
+  });
+  return(retval);
+}
+
+export interface DecodedMessage {
+  valid: boolean,
+  error: string | undefined,
+  type: number | undefined,
+  fields: { [name: string]: any }
+}
@@ -0,0 +1,237 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { checksum } from './Nmea';
+
+const REPEAT_INDICATOR: number = 3;
+const MAX_PAYLOAD_LENGTH: number = 60;
+const MAX_SEQUENCE_ID: number = 9;
+const NAME_LENGTH: number = 20;
+const NAME_EXTENSION_LENGTH: number = 14;
+const TIMESTAMP_NOT_AVAILABLE: number = 60;
+
+var sequenceId: number = 0;
+
+/**
+ * Builder for the bit-packed payload of an AIS message.
+ *
+ * Fields are appended most significant bit first. Numeric fields are
+ * rounded and stored in two's complement so the same method serves
+ * both signed and unsigned fields. Text fields use the AIS six-bit
+ * character set and are padded with '@'.
+ */
+class Payload {
+
+  private bits: string = '';
+
+  constructor(type: number, mmsi: string) {
+    this.int(6, type).int(2, REPEAT_INDICATOR).int(30, parseInt(mmsi));
+  }
+
+  int(width: number, value: number): Payload {
+    var range: number = Math.pow(2, width);
+
+    this.bits += ((((Math.round(value) % range) + range) % range).toString(2).padStart(width, '0'));
+    return(this);
+  }
+
+  text(width: number, value: string): Payload {
+    var chars: number = width / 6;
+
+    value.toUpperCase().padEnd(chars, '@').slice(0, chars).split('').forEach((c) => this.int(6, c.charCodeAt(0) & 0x3F));
+    return(this);
+  }
+
+  /**
+   * Armour the payload and split it into one or more AIVDM sentences.
+   * Multi-sentence messages are given a sequential message id.
+   *
+   * @returns - array of NMEA sentences.
+   */
+  toSentences(): string[] {
+    var fill: number = (6 - (this.bits.length % 6)) % 6;
+    var bits: string = this.bits + '0'.repeat(fill);
+    var payload: string = '';
+    var chunks: string[] = [];
+    var id: string = '';
+
+    for (var i = 0; i < bits.length; i += 6) {
+      let value: number = parseInt(bits.slice(i, i + 6), 2);
+      payload += String.fromCharCode((value < 40)?(value + 48):(value + 56));
+    }
+    for (var i = 0; i < payload.length; i += MAX_PAYLOAD_LENGTH) chunks.push(payload.slice(i, i + MAX_PAYLOAD_LENGTH));
+    if (chunks.length > 1) id = `${sequenceId = (sequenceId + 1) % (MAX_SEQUENCE_ID + 1)}`;
+    return(chunks.map((chunk, index) => {
+      let body: string = `AIVDM,${chunks.length},${index + 1},${id},A,${chunk},${(index == (chunks.length - 1))?fill:0}`;
+      return(`!${body}*${checksum(body)}`);
+    }));
+  }
+
+}
+
+/**
+ * Encode an AIS type 4 base station report.
+ *
+ * @param options - BaseStationOptions for the report.
+ * @returns - array of NMEA sentences.
+ */
+export function encodeBaseStationReport(options: BaseStationOptions): string[] {
+  return((new Payload(4, options.mmsi))
+    .int(14, options.time.getUTCFullYear())
+    .int(4, options.time.getUTCMonth() + 1)
+    .int(5, options.time.getUTCDate())
+    .int(5, options.time.getUTCHours())
+    .int(6, options.time.getUTCMinutes())
+    .int(6, options.time.getUTCSeconds())
+    .int(1, options.accuracy)
+    .int(28, options.lon * 600000)
+    .int(27, options.lat * 600000)
+    .int(4, 0)    // EPFD type undefined
+    .int(10, 0)   // spare
+    .int(1, 0)    // RAIM
+    .int(19, 0)   // radio status
+    .toSentences()
+  );
+}
+
+/**
+ * Encode an AIS type 9 standard SAR aircraft position report.
+ *
+ * @param options - SarAircraftOptions for the report.
+ * @returns - array of NMEA sentences.
+ */
+export function encodeSarAircraftReport(options: SarAircraftOptions): string[] {
+  return((new Payload(9, options.mmsi))
+    .int(12, options.alt)
+    .int(10, options.sog)
+    .int(1, options.accuracy)
+    .int(28, options.lon * 600000)
+    .int(27, options.lat * 600000)
+    .int(12, options.cog * 10)
+    .int(6, TIMESTAMP_NOT_AVAILABLE)
+    .int(8, 0)    // regional reserved
+    .int(1, 1)    // DTE not ready
+    .int(3, 0)    // spare
+    .int(1, 0)    // assigned
+    .int(1, 0)    // RAIM
+    .int(20, 0)   // radio status
+    .toSentences()
+  );
+}
+
+/**
+ * Encode an AIS type 19 extended class B position report.
+ *
+ * @param options - ExtendedClassBOptions for the report.
+ * @returns - array of NMEA sentences.
+ */
+export function encodeExtendedClassBReport(options: ExtendedClassBOptions): string[] {
+  return((new Payload(19, options.mmsi))
+    .int(8, 0)    // regional reserved
+    .int(10, options.sog * 10)
+    .int(1, options.accuracy)
+    .int(28, options.lon * 600000)
+    .int(27, options.lat * 600000)
+    .int(12, options.cog * 10)
+    .int(9, options.hdg)
+    .int(6, TIMESTAMP_NOT_AVAILABLE)
+    .int(4, 0)    // regional reserved
+    .text(120, options.shipname)
+    .int(8, options.cargo)
+    .int(9, options.dimA)
+    .int(9, options.dimB)
+    .int(6, options.dimC)
+    .int(6, options.dimD)
+    .int(4, 0)    // EPFD type undefined
+    .int(1, 0)    // RAIM
+    .int(1, 1)    // DTE not ready
+    .int(1, 0)    // assigned
+    .int(4, 0)    // spare
+    .toSentences()
+  );
+}
+
+/**
+ * Encode an AIS type 21 aid-to-navigation report. Names longer than
+ * twenty characters are carried in the name extension field.
+ *
+ * @param options - AidToNavigationOptions for the report.
+ * @returns - array of NMEA sentences.
+ */
+export function encodeAidToNavigationReport(options: AidToNavigationOptions): string[] {
+  var payload: Payload = (new Payload(21, options.mmsi))
+    .int(5, options.aidType)
+    .text(120, options.name.slice(0, NAME_LENGTH))
+    .int(1, options.accuracy)
+    .int(28, options.lon * 600000)
+    .int(27, options.lat * 600000)
+    .int(9, options.dimA)
+    .int(9, options.dimB)
+    .int(6, options.dimC)
+    .int(6, options.dimD)
+    .int(4, 0)    // EPFD type undefined
+    .int(6, TIMESTAMP_NOT_AVAILABLE)
+    .int(1, (options.offPosition)?1:0)
+    .int(8, 0)    // regional reserved
+    .int(1, 0)    // RAIM
+    .int(1, (options.virtual)?1:0)
+    .int(1, 0)    // assigned
+    .int(1, 0);   // spare
+  var extension: string = options.name.slice(NAME_LENGTH, NAME_LENGTH + NAME_EXTENSION_LENGTH);
+
+  if (extension.length > 0) payload.text(extension.length * 6, extension);
+  return(payload.toSentences());
+}
+
+interface PositionOptions {
+  mmsi: string,
+  accuracy: number,
+  lat: number,
+  lon: number
+}
+
+export interface BaseStationOptions extends PositionOptions {
+  time: Date
+}
+
+export interface SarAircraftOptions extends PositionOptions {
+  alt: number,
+  sog: number,
+  cog: number
+}
+
+export interface ExtendedClassBOptions extends PositionOptions {
+  sog: number,
+  cog: number,
+  hdg: number,
+  shipname: string,
+  cargo: number,
+  dimA: number,
+  dimB: number,
+  dimC: number,
+  dimD: number
+}
+
+export interface AidToNavigationOptions extends PositionOptions {
+  aidType: number,
+  name: string,
+  dimA: number,
+  dimB: number,
+  dimC: number,
+  dimD: number,
+  offPosition: boolean,
+  virtual: boolean
+}
@@ -0,0 +1,341 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as _ from 'lodash';
+import type { AisEncodeOptions } from 'ggencoder';
+import type { AidToNavigationOptions, BaseStationOptions, SarAircraftOptions } from './AisEncoder';
+import { StaticData, toAisString } from './StaticData';
+
+/**
+ * AIS 'not available' values for position report fields.
+ */
+export const NOT_AVAILABLE = {
+  LATITUDE: 91,
+  LONGITUDE: 181,
+  SOG: 102.3,
+  COG: 360,
+  HEADING: 511,
+  ROT: -128,
+  NAVSTATUS: 15,
+  SMI: 0,
+  ALTITUDE: 4095,
+  AIRCRAFT_SOG: 1023,
+  AID_TYPE: 0
+};
+
+const MAX_SOG: number = 102.2;
+const MAX_ROT: number = 126;
+const MAX_ALTITUDE: number = 4094;
+const MAX_AIRCRAFT_SOG: number = 1022;
+const MAX_AID_TYPE: number = 31;
+const ATON_NAME_LENGTH: number = 34;
+const NAVIGATION_STATES: { [key: string]: number } = {
+  'motoring': 0,
+  'anchored': 1,
+  'not under command': 2,
+  'restricted manouverability': 3,
+  'constrained by draft': 4,
+  'moored': 5,
+  'aground': 6,
+  'fishing': 7,
+  'sailing': 8,
+  'hazardous material high speed': 9,
+  'hazardous material wing in ground': 10,
+  'ais-sart': 14,
+  'default': 15
+};
+const SPECIAL_MANEUVERS: { [key: string]: number } = {
+  'not available': 0,
+  'not engaged': 1,
+  'engaged': 2
+};
+
+/**
+ * Map the navigational data of a Signal K vessel onto the properties
+ * required by AisEncode for a position report (types 1 and 18).
+ *
+ * Signal K SI units are converted to the units and resolutions used by
+ * AIS. A missing value is replaced by the AIS 'not available' value.
+ * A value which cannot be represented is either clamped to the AIS
+ * range or replaced by 'not available' and, in both cases, an issue
+ * is recorded against the field. A vessel without a valid position
+ * cannot be reported and yields a result with no options.
+ *
+ * @param vessel - Signal K vessel object.
+ * @returns - MappingResult for the vessel.
+ */
+export function mapPosition(vessel: any): MappingResult {
+  var issues: FieldIssue[] = [];
+  var options: AisEncodeOptions = { mmsi: vessel.mmsi, accuracy: 0 };
+  var position: any = _.get(vessel, 'navigation.position.value', undefined);
+
+  options.lat = mapCoordinate(issues, 'lat', 'navigation.position.value.latitude', _.get(position, 'latitude', undefined), 90);
+  options.lon = mapCoordinate(issues, 'lon', 'navigation.position.value.longitude', _.get(position, 'longitude', undefined), 180);
+  options.sog = mapSog(issues, _.get(vessel, 'navigation.speedOverGround.value', undefined));
+  options.cog = mapAngle(issues, 'cog', 'navigation.courseOverGroundTrue.value', _.get(vessel, 'navigation.courseOverGroundTrue.value', undefined), 10, NOT_AVAILABLE.COG);
+  options.hdg = mapAngle(issues, 'hdg', 'navigation.headingTrue.value', _.get(vessel, 'navigation.headingTrue.value', undefined), 1, NOT_AVAILABLE.HEADING);
+  options.rot = mapRot(issues, _.get(vessel, 'navigation.rateOfTurn.value', undefined));
+  options.navstatus = mapLookup(issues, 'navstatus', 'navigation.state.value', _.get(vessel, 'navigation.state.value', undefined), NAVIGATION_STATES, NOT_AVAILABLE.NAVSTATUS);
+  options.smi = mapLookup(issues, 'smi', 'navigation.specialManeuver.value', _.get(vessel, 'navigation.specialManeuver.value', undefined), SPECIAL_MANEUVERS, NOT_AVAILABLE.SMI);
+
+  return({
+    options: ((options.lat === NOT_AVAILABLE.LATITUDE) || (options.lon === NOT_AVAILABLE.LONGITUDE))?undefined:options,
+    issues: issues
+  });
+}
+
+/**
+ * Map the static and voyage related data of a Signal K vessel onto
+ * the properties required by AisEncode for a static data report
+ * (types 5 and 24).
+ *
+ * @param vessel - Signal K vessel object.
+ * @returns - MappingResult for the vessel.
+ */
+export function mapStatic(vessel: any): MappingResult {
+  return({
+    options: Object.assign({ mmsi: vessel.mmsi }, (new StaticData(vessel)).getAisProperties()),
+    issues: []
+  });
+}
+
+/**
+ * Map the data of a Signal K base station onto the properties
+ * required for an AIS base station report (type 4). The report carries
+ * the current UTC time.
+ *
+ * @param station - Signal K base station object.
+ * @param now - current time in milliseconds.
+ * @returns - MappingResult for the base station.
+ */
+export function mapBaseStation(station: any, now: number): MappingResult<BaseStationOptions> {
+  var issues: FieldIssue[] = [];
+  var position: any = _.get(station, 'navigation.position.value', undefined);
+  var lat: number = mapCoordinate(issues, 'lat', 'navigation.position.value.latitude', _.get(position, 'latitude', undefined), 90);
+  var lon: number = mapCoordinate(issues, 'lon', 'navigation.position.value.longitude', _.get(position, 'longitude', undefined), 180);
+
+  return({
+    options: ((lat === NOT_AVAILABLE.LATITUDE) || (lon === NOT_AVAILABLE.LONGITUDE))?undefined:{ mmsi: station.mmsi, accuracy: 0, lat: lat, lon: lon, time: new Date(now) },
+    issues: issues
+  });
+}
+
+/**
+ * Map the navigational data of a Signal K SAR aircraft onto the
+ * properties required for an AIS SAR aircraft position report (type
+ * 9). Unlike vessel reports, aircraft speed is reported in whole knots
+ * and altitude (taken from the position) in metres.
+ *
+ * @param aircraft - Signal K aircraft object.
+ * @returns - MappingResult for the aircraft.
+ */
+export function mapAircraft(aircraft: any): MappingResult<SarAircraftOptions> {
+  var issues: FieldIssue[] = [];
+  var position: any = _.get(aircraft, 'navigation.position.value', undefined);
+  var lat: number = mapCoordinate(issues, 'lat', 'navigation.position.value.latitude', _.get(position, 'latitude', undefined), 90);
+  var lon: number = mapCoordinate(issues, 'lon', 'navigation.position.value.longitude', _.get(position, 'longitude', undefined), 180);
+
+  return({
+    options: ((lat === NOT_AVAILABLE.LATITUDE) || (lon === NOT_AVAILABLE.LONGITUDE))?undefined:{
+      mmsi: aircraft.mmsi,
+      accuracy: 0,
+      lat: lat,
+      lon: lon,
+      alt: mapRange(issues, 'alt', 'navigation.position.value.altitude', _.get(position, 'altitude', undefined), MAX_ALTITUDE, NOT_AVAILABLE.ALTITUDE),
+      sog: mapRange(issues, 'sog', 'navigation.speedOverGround.value', _.get(aircraft, 'navigation.speedOverGround.value', undefined), MAX_AIRCRAFT_SOG, NOT_AVAILABLE.AIRCRAFT_SOG, mpsToKn),
+      cog: mapAngle(issues, 'cog', 'navigation.courseOverGroundTrue.value', _.get(aircraft, 'navigation.courseOverGroundTrue.value', undefined), 10, NOT_AVAILABLE.COG)
+    },
+    issues: issues
+  });
+}
+
+/**
+ * Map the data of a Signal K aid to navigation onto the properties
+ * required for an AIS aid-to-navigation report (type 21). Dimensions
+ * are derived in the same way as for vessels.
+ *
+ * @param aton - Signal K aid to navigation object.
+ * @returns - MappingResult for the aid to navigation.
+ */
+export function mapAidToNavigation(aton: any): MappingResult<AidToNavigationOptions> {
+  var issues: FieldIssue[] = [];
+  var position: any = _.get(aton, 'navigation.position.value', undefined);
+  var lat: number = mapCoordinate(issues, 'lat', 'navigation.position.value.latitude', _.get(position, 'latitude', undefined), 90);
+  var lon: number = mapCoordinate(issues, 'lon', 'navigation.position.value.longitude', _.get(position, 'longitude', undefined), 180);
+  var aidType: any = _.get(aton, 'atonType.value.id', undefined);
+  var name: any = _.get(aton, 'name.value', aton.name);
+  var staticData: StaticData = new StaticData(aton);
+
+  if ((aidType !== undefined) && ((!Number.isInteger(aidType)) || (aidType < 0) || (aidType > MAX_AID_TYPE))) {
+    issues.push({ field: 'aidType', path: 'atonType.value.id', value: aidType, action: 'rejected', reason: `not an integer in the range 0..${MAX_AID_TYPE}` });
+    aidType = undefined;
+  }
+  return({
+    options: ((lat === NOT_AVAILABLE.LATITUDE) || (lon === NOT_AVAILABLE.LONGITUDE))?undefined:{
+      mmsi: aton.mmsi,
+      accuracy: 0,
+      lat: lat,
+      lon: lon,
+      aidType: (aidType !== undefined)?aidType:NOT_AVAILABLE.AID_TYPE,
+      name: (name)?toAisString(name, ATON_NAME_LENGTH):'',
+      dimA: staticData.dimA.value,
+      dimB: staticData.dimB.value,
+      dimC: staticData.dimC.value,
+      dimD: staticData.dimD.value,
+      offPosition: (_.get(aton, 'offPosition.value', false) === true),
+      virtual: (_.get(aton, 'virtual.value', false) === true)
+    },
+    issues: issues
+  });
+}
+
+/**
+ * Convert radians/second to the AIS ROT indicator.
+ *
+ * AIS encodes rate of turn as 4.733 * sqrt(degrees per minute) with
+ * the sign of the turn, limited to +/-126.
+ *
+ * @param rps - rate of turn in radians per second.
+ * @returns - AIS ROT indicator.
+ */
+export function radsPerSecondToRot(rps: number): number {
+  var dpm: number = rps * 60 * 180 / Math.PI;
+  return(Math.sign(dpm) * Math.min(Math.round(4.733 * Math.sqrt(Math.abs(dpm))), MAX_ROT));
+}
+
+/**
+ * Convert an AIS ROT indicator to radians/second.
+ *
+ * @param rot - AIS ROT indicator.
+ * @returns - rate of turn in radians per second.
+ */
+export function rotToRadsPerSecond(rot: number): number {
+  return(Math.sign(rot) * Math.pow(rot / 4.733, 2) * Math.PI / (180 * 60));
+}
+
+export function radsToDeg(radians: number): number {
+  return(radians * 180 / Math.PI);
+}
+
+export function mpsToKn(mps: number): number {
+  return(1.9438444924574 * mps);
+}
+
+function isNumber(value: any): boolean {
+  return((typeof value === 'number') && (isFinite(value)));
+}
+
+function mapCoordinate(issues: FieldIssue[], field: string, path: string, value: any, limit: number): number {
+  if (value === undefined) return(limit + 1);
+  if ((!isNumber(value)) || (Math.abs(value) > limit)) {
+    issues.push({ field: field, path: path, value: value, action: 'rejected', reason: `not a number in the range -${limit}..${limit}` });
+    return(limit + 1);
+  }
+  return(value);
+}
+
+function mapSog(issues: FieldIssue[], value: any): number {
+  var sog: number;
+
+  if (value === undefined) return(NOT_AVAILABLE.SOG);
+  if ((!isNumber(value)) || (value < 0)) {
+    issues.push({ field: 'sog', path: 'navigation.speedOverGround.value', value: value, action: 'rejected', reason: 'not a non-negative number' });
+    return(NOT_AVAILABLE.SOG);
+  }
+  sog = Math.round(mpsToKn(value) * 10) / 10;
+  if (sog > MAX_SOG) {
+    issues.push({ field: 'sog', path: 'navigation.speedOverGround.value', value: value, action: 'clamped', reason: `exceeds ${MAX_SOG} knots` });
+    sog = MAX_SOG;
+  }
+  return(sog);
+}
+
+/**
+ * Convert an angle in radians to degrees normalised into the range
+ * 0..360 at the resolution used by AIS.
+ */
+function mapAngle(issues: FieldIssue[], field: string, path: string, value: any, resolution: number, notAvailable: number): number {
+  var degrees: number;
+
+  if (value === undefined) return(notAvailable);
+  if (!isNumber(value)) {
+    issues.push({ field: field, path: path, value: value, action: 'rejected', reason: 'not a number' });
+    return(notAvailable);
+  }
+  if ((value < 0) || (value >= (2 * Math.PI))) {
+    issues.push({ field: field, path: path, value: value, action: 'clamped', reason: 'outside the range 0..2pi radians (normalised)' });
+  }
+  degrees = ((radsToDeg(value) % 360) + 360) % 360;
+  degrees = Math.round(degrees * resolution) / resolution;
+  return((degrees == 360)?0:degrees);
+}
+
+function mapRot(issues: FieldIssue[], value: any): number {
+  var rot: number;
+
+  if (value === undefined) return(NOT_AVAILABLE.ROT);
+  if (!isNumber(value)) {
+    issues.push({ field: 'rot', path: 'navigation.rateOfTurn.value', value: value, action: 'rejected', reason: 'not a number' });
+    return(NOT_AVAILABLE.ROT);
+  }
+  rot = radsPerSecondToRot(value);
+  if (Math.round(4.733 * Math.sqrt(Math.abs(radsToDeg(value) * 60))) > MAX_ROT) {
+    issues.push({ field: 'rot', path: 'navigation.rateOfTurn.value', value: value, action: 'clamped', reason: `exceeds ${radsToDeg(rotToRadsPerSecond(MAX_ROT) * 60).toFixed(0)} degrees per minute` });
+  }
+  return(rot);
+}
+
+/**
+ * Map a non-negative value, optionally converted, onto a whole number
+ * no greater than a maximum.
+ */
+function mapRange(issues: FieldIssue[], field: string, path: string, value: any, max: number, notAvailable: number, convert: (value: number) => number = (v) => v): number {
+  var mapped: number;
+
+  if (value === undefined) return(notAvailable);
+  if ((!isNumber(value)) || (value < 0)) {
+    issues.push({ field: field, path: path, value: value, action: 'rejected', reason: 'not a non-negative number' });
+    return(notAvailable);
+  }
+  mapped = Math.round(convert(value));
+  if (mapped > max) {
+    issues.push({ field: field, path: path, value: value, action: 'clamped', reason: `exceeds ${max}` });
+    mapped = max;
+  }
+  return(mapped);
+}
+
+function mapLookup(issues: FieldIssue[], field: string, path: string, value: any, table: { [key: string]: number }, notAvailable: number): number {
+  if (value === undefined) return(notAvailable);
+  if (table[value] === undefined) {
+    issues.push({ field: field, path: path, value: value, action: 'rejected', reason: 'not a recognised value' });
+    return(notAvailable);
+  }
+  return(table[value]);
+}
+
+export interface MappingResult<T = AisEncodeOptions> {
+  options: T | undefined,
+  issues: FieldIssue[]
+}
+
+export interface FieldIssue {
+  field: string,
+  path: string,
+  value: any,
+  action: 'clamped' | 'rejected',
+  reason: string
+}
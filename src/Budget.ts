@@ -0,0 +1,178 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Throttle levels applied as an endpoint's data usage approaches its
+ * budget. Each level includes the restrictions of the levels below it.
+ */
+export const THROTTLE = {
+  NONE: 0,
+  DROP_OTHERS: 1,
+  REDUCE_STATIC: 2,
+  REDUCE_POSITION: 3,
+  STOP: 4
+};
+
+const THROTTLE_NAMES: string[] = [ 'none', 'others dropped', 'static reduced', 'position reduced', 'stopped' ];
+const DEFAULT_THRESHOLDS: number[] = [ 0.7, 0.8, 0.9 ];
+const DEFAULT_STRETCH_FACTOR: number = 4;
+
+/**
+ * Daily and monthly byte budget for an endpoint.
+ *
+ * The throttle level is decided by whichever of the daily and monthly
+ * budgets is closest to exhaustion. As the proportion of the budget
+ * used passes each of three thresholds the plugin stops reporting
+ * other vessels, then stretches static data intervals and then
+ * stretches 'self' position intervals. When the budget is exhausted
+ * reporting stops until the day or month rolls over. Each report is
+ * also checked against the budget before it is sent, so the budget
+ * cannot be overrun between recalculations of the throttle level.
+ *
+ * Invalid configurations cause an exception.
+ */
+export class DataBudget {
+
+  public level: number = THROTTLE.NONE;
+
+  private daily: number | undefined;
+  private monthly: number | undefined;
+  private thresholds: number[];
+  private stretchFactor: number;
+  private unrecorded: number = 0;
+
+  constructor(budget: any) {
+    if ((budget.daily !== undefined) && ((typeof budget.daily !== 'number') || (budget.daily <= 0))) throw new Error(`invalid 'budget.daily' property (${budget.daily})`);
+    if ((budget.monthly !== undefined) && ((typeof budget.monthly !== 'number') || (budget.monthly <= 0))) throw new Error(`invalid 'budget.monthly' property (${budget.monthly})`);
+    if ((budget.daily === undefined) && (budget.monthly === undefined)) throw new Error('invalid \'budget\' property (requires \'daily\' and/or \'monthly\')');
+    if ((budget.thresholds !== undefined) && ((!Array.isArray(budget.thresholds)) || (budget.thresholds.length != DEFAULT_THRESHOLDS.length) || (!budget.thresholds.every((t: any, i: number, a: any[]) => ((typeof t === 'number') && (t > 0) && (t < 1) && ((i == 0) || (t > a[i - 1]))))))) {
+      throw new Error('invalid \'budget.thresholds\' property (must be three ascending fractions between 0 and 1)');
+    }
+    if ((budget.stretchFactor !== undefined) && ((typeof budget.stretchFactor !== 'number') || (budget.stretchFactor < 1))) throw new Error(`invalid 'budget.stretchFactor' property (${budget.stretchFactor})`);
+    this.daily = budget.daily;
+    this.monthly = budget.monthly;
+    this.thresholds = budget.thresholds || DEFAULT_THRESHOLDS;
+    this.stretchFactor = budget.stretchFactor || DEFAULT_STRETCH_FACTOR;
+  }
+
+  /**
+   * Recalculate the throttle level from current usage.
+   *
+   * @param usage - bytes used today and this month.
+   * @returns - true if the throttle level has changed.
+   */
+  update(usage: BudgetUsage): boolean {
+    var used: number = Math.max(
+      (this.daily)?(usage.day / this.daily):0,
+      (this.monthly)?(usage.month / this.monthly):0
+    );
+    var level: number = (used >= 1)?THROTTLE.STOP:this.thresholds.filter((threshold) => (used >= threshold)).length;
+    var changed: boolean = (level != this.level);
+
+    this.level = level;
+    return(changed);
+  }
+
+  /**
+   * Check whether a report can be sent without exceeding the budget.
+   * Bytes spent since the last call to settle() are added to the
+   * usage.
+   *
+   * @param usage - bytes used today and this month.
+   * @param bytes - size of the report in bytes.
+   * @returns - true if the report can be sent.
+   */
+  admits(usage: BudgetUsage, bytes: number): boolean {
+    var extra: number = this.unrecorded + bytes;
+
+    return(((!this.daily) || ((usage.day + extra) <= this.daily)) && ((!this.monthly) || ((usage.month + extra) <= this.monthly)));
+  }
+
+  /**
+   * Count bytes sent which are not yet included in usage.
+   *
+   * @param bytes - number of bytes sent.
+   */
+  spend(bytes: number) {
+    this.unrecorded += bytes;
+  }
+
+  /**
+   * Forget bytes counted by spend() once they are included in usage.
+   */
+  settle() {
+    this.unrecorded = 0;
+  }
+
+  /**
+   * Stretch a reporting interval by the budget's stretch factor.
+   *
+   * @param interval - interval in seconds (0 disables).
+   * @returns - stretched interval in seconds.
+   */
+  stretch(interval: number): number {
+    return(interval * this.stretchFactor);
+  }
+
+  /**
+   * Get a description of the current throttle level.
+   */
+  getLevelName(): string {
+    return(THROTTLE_NAMES[this.level]);
+  }
+
+  /**
+   * Get the state of the budget.
+   *
+   * @param usage - bytes used today and this month.
+   * @param now - current time in milliseconds.
+   * @returns - BudgetStatus.
+   */
+  getStatus(usage: BudgetUsage, now: number): BudgetStatus {
+    var date: Date = new Date(now);
+    var monthStart: number = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+    var monthEnd: number = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+
+    return({
+      throttle: this.getLevelName(),
+      daily: { limit: this.daily, used: usage.day },
+      monthly: { limit: this.monthly, used: usage.month, projected: Math.round(usage.month * (monthEnd - monthStart) / Math.max(now - monthStart, 3600000)) }
+    });
+  }
+
+}
+
+/**
+ * Make a DataBudget from a configuration property, returning
+ * undefined if the property is absent.
+ *
+ * @param budget - 'budget' configuration property or undefined.
+ * @returns - a DataBudget or undefined.
+ */
+export function makeDataBudget(budget: any): DataBudget | undefined {
+  return((budget !== undefined)?new DataBudget(budget):undefined);
+}
+
+export interface BudgetUsage {
+  day: number,
+  month: number
+}
+
+export interface BudgetStatus {
+  throttle: string,
+  daily: { limit: number | undefined, used: number },
+  monthly: { limit: number | undefined, used: number, projected: number }
+}
@@ -0,0 +1,116 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Position, distanceBetween } from './GeoFilter';
+
+const METRES_PER_NM: number = 1852;
+
+/**
+ * Remembers the last report sent for each vessel so that reports which
+ * would tell an endpoint nothing new can be skipped.
+ *
+ * A static data report is skipped if its sentences are identical to
+ * those last sent for the vessel. A position report is skipped if the
+ * vessel has moved less than the minimum distance since its position
+ * was last sent. In both cases a report is sent anyway once the
+ * keep-alive interval has elapsed since the last report, so that
+ * remote services do not time the vessel out.
+ */
+export class ChangeFilter {
+
+  private options: ChangeFilterOptions;
+  private positions: Map<string, { time: number, position: Position }> = new Map();
+  private statics: Map<string, { time: number, payload: string }> = new Map();
+
+  constructor(options: ChangeFilterOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Check whether a vessel's position report should be sent.
+   *
+   * @param mmsi - vessel MMSI.
+   * @param position - position to be reported.
+   * @param now - current time in milliseconds.
+   * @param force - true to send the report regardless.
+   * @returns - true if the report should be sent.
+   */
+  acceptsPosition(mmsi: string, position: Position, now: number, force: boolean = false): boolean {
+    var last: { time: number, position: Position } | undefined = this.positions.get(mmsi);
+
+    return((force) || (!last) || (!this.isAlive(last.time, now)) || ((distanceBetween(last.position, position) * METRES_PER_NM) >= this.options.minimumDistance));
+  }
+
+  /**
+   * Remember the position of a vessel's position report once it has
+   * been sent.
+   *
+   * @param mmsi - vessel MMSI.
+   * @param position - position which was reported.
+   * @param now - current time in milliseconds.
+   */
+  recordPosition(mmsi: string, position: Position, now: number) {
+    this.positions.set(mmsi, { time: now, position: { latitude: position.latitude, longitude: position.longitude }});
+  }
+
+  /**
+   * Check whether a vessel's static data report should be sent.
+   *
+   * @param mmsi - vessel MMSI.
+   * @param sentences - NMEA sentences which make up the report.
+   * @param now - current time in milliseconds.
+   * @param force - true to send the report regardless.
+   * @returns - true if the report should be sent.
+   */
+  acceptsStatic(mmsi: string, sentences: string[], now: number, force: boolean = false): boolean {
+    var last: { time: number, payload: string } | undefined = this.statics.get(mmsi);
+
+    return((force) || (!last) || (!this.isAlive(last.time, now)) || (last.payload != sentences.join('')));
+  }
+
+  /**
+   * Remember the content of a vessel's static data report once it has
+   * been sent.
+   *
+   * @param mmsi - vessel MMSI.
+   * @param sentences - NMEA sentences which made up the report.
+   * @param now - current time in milliseconds.
+   */
+  recordStatic(mmsi: string, sentences: string[], now: number) {
+    this.statics.set(mmsi, { time: now, payload: sentences.join('') });
+  }
+
+  /**
+   * Forget vessels which have not been reported for longer than twice
+   * the keep-alive interval.
+   *
+   * @param now - current time in milliseconds.
+   */
+  expire(now: number) {
+    this.positions.forEach((last, mmsi) => { if ((now - last.time) > (this.options.keepAlive * 2000)) this.positions.delete(mmsi); });
+    this.statics.forEach((last, mmsi) => { if ((now - last.time) > (this.options.keepAlive * 2000)) this.statics.delete(mmsi); });
+  }
+
+  private isAlive(time: number, now: number): boolean {
+    return((now - time) < (this.options.keepAlive * 1000));
+  }
+
+}
+
+export interface ChangeFilterOptions {
+  minimumDistance: number,
+  keepAlive: number
+}
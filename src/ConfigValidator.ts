@@ -0,0 +1,282 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Endpoint, makeEndpointKey, parseInterval } from './Endpoint';
+import { makeFleet } from './Fleet';
+
+/**
+ * Property names used by earlier versions of the plugin (or of its
+ * documentation) and the names which replace them. Names which differ
+ * from a current name only in case are migrated without needing an
+ * entry here.
+ */
+const LEGACY_PROPERTIES: { [name: string]: string } = {
+  'updateIntervalSelector': 'updateIntervalIndexPath',
+  'upateIntervalSelector': 'updateIntervalIndexPath',
+  'positionUpdateIntervals': 'positionUpdateInterval',
+  'staticUpdateIntervals': 'staticUpdateInterval'
+};
+
+const OPTION_PROPERTIES: { [name: string]: string } = {
+  'expiryInterval': 'interval',
+  'positionUpdateInterval': 'intervals',
+  'staticUpdateInterval': 'intervals',
+  'minimumReportInterval': 'interval',
+  'maximumReportInterval': 'interval',
+  'updateIntervalIndexPath': 'string',
+  'profiles': 'array',
+  'radius': 'number',
+  'geofence': 'object',
+  'adaptive': 'object',
+  'skipUnchanged': 'object',
+  'extendedClassB': 'boolean'
+};
+
+const GROUP_PROPERTIES: { [group: string]: { [name: string]: string } } = {
+  'myVessel': { ...OPTION_PROPERTIES, 'privacy': 'object' },
+  'otherVessels': { ...OPTION_PROPERTIES, 'rules': 'array' },
+  'atons': OPTION_PROPERTIES,
+  'aircraft': OPTION_PROPERTIES,
+  'basestations': OPTION_PROPERTIES
+};
+
+const FLEET_PROPERTIES: { [name: string]: string } = {
+  ...OPTION_PROPERTIES,
+  'mmsi': 'string',
+  'context': 'string',
+  'aisClass': 'string',
+  'static': 'object'
+};
+
+const SHARED_PROPERTIES: { [name: string]: string } = {
+  ...OPTION_PROPERTIES,
+  'myVessel': 'group',
+  'otherVessels': 'group',
+  'atons': 'group',
+  'aircraft': 'group',
+  'basestations': 'group',
+  'budget': 'object',
+  'queue': 'object',
+  'framing': 'object',
+  'passthrough': 'boolean',
+  'resolveInterval': 'interval',
+  'health': 'object',
+  'dryRun': 'boolean'
+};
+
+const PLUGIN_PROPERTIES: { [name: string]: string } = {
+  ...SHARED_PROPERTIES,
+  'fleet': 'fleet',
+  'endpoints': 'endpoints'
+};
+
+const ENDPOINT_PROPERTIES: { [name: string]: string } = {
+  ...SHARED_PROPERTIES,
+  'name': 'string',
+  'ipAddress': 'string',
+  'port': 'port',
+  'protocol': 'string',
+  'broadcast': 'boolean',
+  'multicast': 'object',
+  'interface': 'string',
+  'trusted': 'boolean',
+  'reconnect': 'object',
+  'maxBufferedBytes': 'number',
+  'tls': 'object',
+  'path': 'string',
+  'rotate': 'object'
+};
+
+/**
+ * Check a plugin configuration and make a copy of it in which legacy
+ * and misspelt property names are replaced by their current names.
+ *
+ * Each problem found is reported as a ConfigDiagnostic which locates
+ * the problem by its path in the configuration (for example
+ * 'endpoints[1].myVessel.positionUpdateInterval'). Migrated and
+ * unknown properties are reported as warnings; anything which would
+ * stop the plugin from using the configuration is an error. Once the
+ * structure of the configuration has been checked each endpoint is
+ * built so that errors detected by the Endpoint constructor are also
+ * reported.
+ *
+ * @param options - plugin configuration as supplied by Signal K.
+ * @param defaults - default endpoint options.
+ * @returns - ConfigValidation holding the migrated configuration and
+ * any diagnostics.
+ */
+export function validateConfiguration(options: any, defaults: any): ConfigValidation {
+  var diagnostics: ConfigDiagnostic[] = [];
+  var configuration: any;
+
+  if ((!options) || (typeof options !== 'object') || (Array.isArray(options))) {
+    return({ configuration: options, diagnostics: [ { severity: 'error', path: '', message: 'configuration is not an object' } ] });
+  }
+  configuration = checkObject(options, PLUGIN_PROPERTIES, '', diagnostics);
+  if (!diagnostics.some((d) => ((d.severity == 'error') && (d.path.startsWith('fleet'))))) {
+    try { makeFleet(configuration.fleet); } catch(e: any) { diagnostics.push({ severity: 'error', path: 'fleet', message: e.message }); }
+  }
+  if (configuration.endpoints === undefined) {
+    diagnostics.push({ severity: 'error', path: 'endpoints', message: 'missing \'endpoints\' property' });
+  } else if (Array.isArray(configuration.endpoints)) {
+    configuration.endpoints.forEach((option: any, index: number) => {
+      let path: string = `endpoints[${index}]`;
+      let name: string = ((option) && (option.name || option.ipAddress || option.path));
+      let names: string[] = configuration.endpoints.slice(0, index).filter((o: any) => (o)).map((o: any) => (o.name || o.ipAddress || o.path)).filter((n: any) => (n));
+      let clash: string | undefined;
+
+      if (!name) return;
+      if (names.includes(name)) {
+        diagnostics.push({ severity: 'error', path: path, message: `duplicate endpoint name '${name}'` });
+      } else if ((clash = names.find((n) => (makeEndpointKey(n) == makeEndpointKey(name)))) !== undefined) {
+        diagnostics.push({ severity: 'error', path: path, message: `endpoint name '${name}' clashes with '${clash}' (both are stored as '${makeEndpointKey(name)}')` });
+      }
+    });
+    if (!diagnostics.some((d) => (d.severity == 'error'))) {
+      configuration.endpoints.forEach((option: any, index: number) => {
+        try { new Endpoint(option, configuration, defaults); } catch(e: any) { diagnostics.push({ severity: 'error', path: `endpoints[${index}]`, message: e.message }); }
+      });
+    }
+  }
+  return({ configuration: configuration, diagnostics: diagnostics });
+}
+
+/**
+ * Check a single endpoint definition (for example one supplied to the
+ * plugin's API) in the context of an existing plugin configuration.
+ *
+ * @param option - endpoint definition.
+ * @param options - plugin configuration supplying inherited options.
+ * @param defaults - default endpoint options.
+ * @returns - ConfigValidation holding the migrated endpoint definition
+ * and any diagnostics.
+ */
+export function validateEndpoint(option: any, options: any, defaults: any): ConfigValidation {
+  var diagnostics: ConfigDiagnostic[] = [];
+  var configuration: any = checkEndpoint(option, '', diagnostics);
+
+  if (!diagnostics.some((d) => (d.severity == 'error'))) {
+    try { new Endpoint(configuration, options, defaults); } catch(e: any) { diagnostics.push({ severity: 'error', path: '', message: e.message }); }
+  }
+  return({ configuration: configuration, diagnostics: diagnostics });
+}
+
+/**
+ * Check the properties of an object against a table of property
+ * types, migrating legacy names and descending into vessel groups,
+ * fleet members and endpoint lists.
+ *
+ * @returns - a shallow copy of the object with migrated properties.
+ */
+function checkObject(object: any, properties: { [name: string]: string }, path: string, diagnostics: ConfigDiagnostic[]): any {
+  var retval: any = {};
+
+  Object.keys(object).forEach((name) => {
+    let canonical: string | undefined = (properties[name] !== undefined)?name:(LEGACY_PROPERTIES[name] || Object.keys(properties).find((n) => (n.toLowerCase() == name.toLowerCase())));
+
+    if ((canonical === undefined) || (properties[canonical] === undefined)) {
+      diagnostics.push({ severity: 'warning', path: joinPath(path, name), message: 'unknown property (ignored)' });
+    } else if (canonical != name) {
+      if (object[canonical] !== undefined) {
+        diagnostics.push({ severity: 'warning', path: joinPath(path, name), message: `legacy name for '${canonical}' which is also defined (ignored)` });
+      } else {
+        diagnostics.push({ severity: 'warning', path: joinPath(path, name), message: `legacy or misspelt name for '${canonical}' (migrated)` });
+        retval[canonical] = checkValue(object[name], properties[canonical], canonical, joinPath(path, canonical), diagnostics);
+      }
+    } else {
+      retval[name] = checkValue(object[name], properties[name], name, joinPath(path, name), diagnostics);
+    }
+  });
+  return(retval);
+}
+
+function checkEndpoint(option: any, path: string, diagnostics: ConfigDiagnostic[]): any {
+  var retval: any;
+
+  if ((!option) || (typeof option !== 'object') || (Array.isArray(option))) {
+    diagnostics.push({ severity: 'error', path: path, message: 'endpoint definition is not an object' });
+    return(option);
+  }
+  retval = checkObject(option, ENDPOINT_PROPERTIES, path, diagnostics);
+  if (retval.protocol == 'file') {
+    if (retval.path === undefined) diagnostics.push({ severity: 'error', path: joinPath(path, 'path'), message: 'missing \'path\' property' });
+  } else {
+    if (retval.ipAddress === undefined) diagnostics.push({ severity: 'error', path: joinPath(path, 'ipAddress'), message: 'missing \'ipAddress\' property' });
+    if (retval.port === undefined) diagnostics.push({ severity: 'error', path: joinPath(path, 'port'), message: 'missing \'port\' property' });
+  }
+  return(retval);
+}
+
+/**
+ * Check that a value has the type required of the property which holds
+ * it.
+ *
+ * @returns - the value, migrated if it is a vessel group, fleet or
+ * endpoint list.
+ */
+function checkValue(value: any, type: string, name: string, path: string, diagnostics: ConfigDiagnostic[]): any {
+  var error: string | undefined = undefined;
+
+  switch (type) {
+    case 'group':
+      if ((value) && (typeof value === 'object') && (!Array.isArray(value))) return(checkObject(value, GROUP_PROPERTIES[name], path, diagnostics));
+      error = 'not an object';
+      break;
+    case 'endpoints':
+      if (Array.isArray(value)) return(value.map((option: any, index: number) => checkEndpoint(option, `${path}[${index}]`, diagnostics)));
+      error = 'not an array';
+      break;
+    case 'fleet':
+      if (Array.isArray(value)) return(value.map((entry: any, index: number) => (((entry) && (typeof entry === 'object') && (!Array.isArray(entry)))?checkObject(entry, FLEET_PROPERTIES, `${path}[${index}]`, diagnostics):entry)));
+      error = 'not an array';
+      break;
+    case 'interval':
+    case 'intervals':
+      ((type == 'intervals') && (Array.isArray(value))?value:[ value ]).forEach((v: any) => {
+        try { parseInterval(v); } catch(e: any) { error = e.message; }
+      });
+      break;
+    case 'port':
+      if ((!Number.isInteger(value)) || (value < 1) || (value > 65535)) error = `invalid port number (${value})`;
+      break;
+    case 'object':
+      if ((!value) || (typeof value !== 'object') || (Array.isArray(value))) error = 'not an object';
+      break;
+    case 'array':
+      if (!Array.isArray(value)) error = 'not an array';
+      break;
+    default:
+      if (typeof value !== type) error = `not a ${type}`;
+      break;
+  }
+  if (error) diagnostics.push({ severity: 'error', path: path, message: error });
+  return(value);
+}
+
+function joinPath(path: string, name: string): string {
+  return((path)?`${path}.${name}`:name);
+}
+
+export interface ConfigDiagnostic {
+  severity: 'error' | 'warning',
+  path: string,
+  message: string
+}
+
+export interface ConfigValidation {
+  configuration: any,
+  diagnostics: ConfigDiagnostic[]
+}
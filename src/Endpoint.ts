@@ -1,54 +1,305 @@
+import * as _ from 'lodash';
+import { isIP } from 'net';
+import { isAbsolute } from 'path';
+import type { FileTransportOptions, Transport, TcpTransportOptions, UdpTransportOptions } from './Transport';
+import { AdaptiveScheduler } from './AdaptiveScheduler';
+import { GeoFilter, makeGeoFilter } from './GeoFilter';
+import { VesselRuleSet, makeVesselRuleSet } from './VesselRules';
+import { PrivacyFilter } from './Privacy';
+import { DataBudget, makeDataBudget } from './Budget';
+import type { OutboundQueue, QueueOptions } from './OutboundQueue';
+import { Framer } from './Nmea';
+import { RelayFilter } from './Relay';
+import { ChangeFilter } from './ChangeFilter';
+import { OPERATORS, Profile, ProfileSelector } from './Profiles';
+import { EndpointHealth } from './Health';
+import { makeFleet } from './Fleet';
+import { TrafficLog } from './Traffic';
+
+const PROTOCOLS: string[] = [ 'udp', 'tcp', 'tls', 'file' ];
+export const STATISTICS_BUCKETS: StatisticsBucket[] = [ 'self', 'others', 'fleet' ];
+
+/**
+ * Signal K contexts of the non-vessel targets which can be reported,
+ * keyed by the name of the configuration block which enables them.
+ */
+export const TARGET_CONTEXTS: { [group: string]: string } = {
+  'atons': 'atons',
+  'aircraft': 'aircraft',
+  'basestations': 'shore.basestations'
+};
+
 export class Endpoint {
 
   public name: string = '';
+  public key: string = '';
   public ipAddress: string = '';
   public port: number = 0;
+  public protocol: string = 'udp';
+  public udpOptions: UdpTransportOptions = <UdpTransportOptions>{};
+  public tcpOptions: TcpTransportOptions = <TcpTransportOptions>{};
+  public fileOptions: FileTransportOptions | undefined = undefined;
+  public dryRun: boolean = false;
+  public transport: Transport | undefined = undefined;
   public myVessel: Vessel = <Vessel>{};
   public otherVessels: Vessel = <Vessel>{};
+  public targets: { [group: string]: Vessel } = {};
+  public fleet: { [key: string]: Vessel } = {};
   public statistics: Statistics = <Statistics>{};
+  public schedule: Schedule = <Schedule>{};
+  public vesselsFiltered: { self: number, others: number, fleet: number } = { self: 0, others: 0, fleet: 0 };
+  public paused: boolean = false;
+  public budget: DataBudget | undefined = undefined;
+  public queueOptions: QueueOptions | undefined = undefined;
+  public queue: OutboundQueue | undefined = undefined;
+  public framer: Framer;
+  public relay: RelayFilter | undefined = undefined;
+  public health: EndpointHealth;
+  public traffic: TrafficLog;
 
   constructor(option: any, options: any, defaults: any) {
-    if (!option.ipAddress) throw new Error('missing \'ipAddress\' property');
-    if (!option.port) throw new Error('missing \'port\' property');
-
-    this.name = option.name || option.ipAddress;
-    this.ipAddress = option.ipAddress;
-    this.port = option.port;
-    this.myVessel = <Vessel>{};
-    this.myVessel.expiryInterval = getOption([(option.myVessel || {}),option,(options.myVessel || {}),options], 'expiryInterval', defaults.EXPIRY_INTERVAL);
-    this.myVessel.positionUpdateIntervals = getOptionArray([(option.myVessel || {}),option,(options.myVessel || {}),options], 'positionUpdateInterval', [defaults.POSITION_UPDATE_INTERVAL]);
-    this.myVessel.staticUpdateIntervals = getOptionArray([(option.myVessel || {}),option,(options.myVessel || {}),,options], 'staticUpdateInterval', [defaults.STATIC_DATA_UPDATE_INTERVAL]);
-    this.myVessel.updateIntervalIndexPath = getOption([(option.myVessel || {}),option,(options.myVessel || {}),options], 'updateIntervalIndexPath', undefined);
-    this.otherVessels = <Vessel>{};
-    this.otherVessels.expiryInterval = getOption([(option.otherVessels || {}),option,(options.otherVessels || {}),options], 'expiryInterval', defaults.EXPIRY_INTERVAL);
-    this.otherVessels.positionUpdateIntervals = getOptionArray([(option.otherVessels || {}),option,(options.otherVessels || {}),options], 'positionUpdateInterval', [defaults.POSITION_UPDATE_INTERVAL]);
-    this.otherVessels.staticUpdateIntervals = getOptionArray([(option.otherVessels || {}),option,(options.otherVessels || {}),options], 'staticUpdateInterval', [defaults.STATIC_DATA_UPDATE_INTERVAL]);
-    this.otherVessels.updateIntervalIndexPath = getOption([(option.otherVessels || {}),option,(options.otherVessels || {}),options], 'updateIntervalIndexPath', undefined);
+    if ((option.protocol) && (!PROTOCOLS.includes(option.protocol))) throw new Error(`invalid 'protocol' property (${option.protocol})`);
+    if (option.protocol == 'file') {
+      if (!option.path) throw new Error('missing \'path\' property');
+    } else {
+      if (!option.ipAddress) throw new Error('missing \'ipAddress\' property');
+      if (!option.port) throw new Error('missing \'port\' property');
+    }
+
+    this.name = option.name || option.ipAddress || option.path;
+    this.key = makeEndpointKey(this.name);
+    this.ipAddress = option.ipAddress || '';
+    this.port = option.port || 0;
+    this.protocol = option.protocol || 'udp';
+    this.udpOptions = makeUdpOptions(option, this.protocol);
+    this.fileOptions = makeFileOptions(option, this.protocol);
+    this.dryRun = (getOption([option, options], 'dryRun', false) === true);
+    this.tcpOptions = {
+      reconnectMinimumDelay: _.get(option, 'reconnect.minimumDelay', defaults.RECONNECT_MINIMUM_DELAY) * 1000,
+      reconnectMaximumDelay: _.get(option, 'reconnect.maximumDelay', defaults.RECONNECT_MAXIMUM_DELAY) * 1000,
+      keepAliveDelay: defaults.KEEPALIVE_DELAY * 1000,
+      maxBufferedBytes: option.maxBufferedBytes || defaults.MAX_BUFFERED_BYTES,
+      tls: option.tls
+    };
+    this.myVessel = makeVessel([(option.myVessel || {}),option,(options.myVessel || {}),options]);
+    this.myVessel.privacy = makePrivacyFilter(getOption([(option.myVessel || {}),(options.myVessel || {})], 'privacy', undefined));
+    this.otherVessels = makeVessel([(option.otherVessels || {}),option,(options.otherVessels || {}),options]);
+    this.otherVessels.rules = makeVesselRuleSet(getOption([(option.otherVessels || {}),(options.otherVessels || {})], 'rules', undefined));
+    Object.keys(TARGET_CONTEXTS).forEach((group) => {
+      if ((option[group] !== undefined) || (options[group] !== undefined)) this.targets[group] = makeVessel([(option[group] || {}),option,(options[group] || {}),options]);
+    });
+    makeFleet(options.fleet).forEach((member) => { this.fleet[member.key] = makeVessel([member.option,option,options]); });
+    this.budget = makeDataBudget(getOption([option, options], 'budget', undefined));
+    this.queueOptions = makeQueueOptions(getOption([option, options], 'queue', undefined));
+    this.framer = new Framer(getOption([option, options], 'framing', {}));
+    this.relay = (getOption([option, options], 'passthrough', false) === true)?new RelayFilter(this.otherVessels.expiryInterval * 60):undefined;
+    this.health = makeHealth(getOption([option, options], 'health', {}));
+    this.traffic = new TrafficLog(defaults.TRAFFIC_LOG_SIZE);
+    this.schedule = {
+      startAt: Date.now(),
+      position: { self: 0, others: 0 },
+      static: { self: 0, others: 0 },
+      targets: {},
+      fleet: Object.keys(this.fleet).reduce((a: { [key: string]: { position: number, static: number } }, key) => { a[key] = { position: 0, static: 0 }; return(a); }, {})
+    };
     this.statistics = {
       started: Date.now(),
       totalBytes: 0,
-      position: {
-        self: {
-          reports: 0,
-          bytes: 0
-        },
-        others: {
-          reports: 0,
-          bytes: 0
-        }
-      },
-      static: {
-        self: {
-          reports: 0,
-          bytes: 0
-        },
-        others: {
-          reports: 0,
-          bytes: 0
+      position: makeReportStatistics(),
+      static: makeReportStatistics(),
+      relayed: makeReportStatistics()
+    }
+  
+    function makeVessel(objects: any[]): Vessel {
+      var adaptive: any = getOption(objects, 'adaptive', undefined);
+      var minimumReportInterval: number = parseInterval(getOption(objects, 'minimumReportInterval', defaults.MINIMUM_REPORT_INTERVAL));
+      var maximumReportInterval: number = parseInterval(getOption(objects, 'maximumReportInterval', defaults.MAXIMUM_REPORT_INTERVAL));
+
+      if (minimumReportInterval > maximumReportInterval) throw new Error('\'minimumReportInterval\' exceeds \'maximumReportInterval\'');
+      return({
+        expiryInterval: parseInterval(getOption(objects, 'expiryInterval', defaults.EXPIRY_INTERVAL)) / 60,
+        profiles: new ProfileSelector(makeProfiles(objects)),
+        extendedClassB: (getOption(objects, 'extendedClassB', false) === true),
+        minimumReportInterval: minimumReportInterval,
+        maximumReportInterval: maximumReportInterval,
+        geoFilter: makeGeoFilter(getOption(objects, 'radius', undefined), getOption(objects, 'geofence', undefined)),
+        rules: undefined,
+        privacy: undefined,
+        changeFilter: makeChangeFilter(getOption(objects, 'skipUnchanged', undefined)),
+        adaptive: (adaptive)?new AdaptiveScheduler({
+          speedThreshold: _.get(adaptive, 'speedThreshold', defaults.ADAPTIVE_SPEED_THRESHOLD),
+          courseThreshold: _.get(adaptive, 'courseThreshold', defaults.ADAPTIVE_COURSE_THRESHOLD),
+          headingThreshold: _.get(adaptive, 'headingThreshold', defaults.ADAPTIVE_HEADING_THRESHOLD),
+          minimumInterval: minimumReportInterval,
+          maximumInterval: maximumReportInterval
+        }):undefined
+      });
+    }
+
+    /**
+     * Make the interval profiles for a vessel group. The group's own
+     * update intervals form a final 'default' profile which applies
+     * when no other profile is selected.
+     *
+     * A legacy 'updateIntervalIndexPath' configuration, in which the
+     * value of a path indexes arrays of intervals, is converted into
+     * profiles named by index. A path value outside the range of the
+     * arrays selects the first interval rather than disabling
+     * reporting.
+     */
+    function makeProfiles(objects: any[]): Profile[] {
+      var positionUpdateIntervals: number[] = getOptionArray(objects, 'positionUpdateInterval', [defaults.POSITION_UPDATE_INTERVAL]).map(parseInterval);
+      var staticUpdateIntervals: number[] = getOptionArray(objects, 'staticUpdateInterval', [defaults.STATIC_DATA_UPDATE_INTERVAL]).map(parseInterval);
+      var indexPath: string | undefined = getOption(objects, 'updateIntervalIndexPath', undefined);
+      var profiles: any = getOption(objects, 'profiles', undefined);
+      var retval: Profile[] = [];
+
+      if (profiles !== undefined) {
+        if (!Array.isArray(profiles)) throw new Error('invalid \'profiles\' property (not an array)');
+        retval = profiles.map((profile: any, index: number) => makeProfile(profile, index, positionUpdateIntervals[0], staticUpdateIntervals[0]));
+        if (retval.some((profile, index) => (retval.findIndex((p) => (p.name == profile.name)) != index))) throw new Error('invalid \'profiles\' property (duplicate profile name)');
+      } else if (indexPath) {
+        for (var i = 1; i < Math.max(positionUpdateIntervals.length, staticUpdateIntervals.length); i++) {
+          retval.push({
+            name: `${i}`,
+            positionUpdateInterval: (positionUpdateIntervals[i] !== undefined)?positionUpdateIntervals[i]:positionUpdateIntervals[0],
+            staticUpdateInterval: (staticUpdateIntervals[i] !== undefined)?staticUpdateIntervals[i]:staticUpdateIntervals[0],
+            hold: 0,
+            conditions: [ { path: indexPath, operator: '==', value: i, hysteresis: 0 } ]
+          });
         }
       }
+      if ((retval.length == 0) || (retval[retval.length - 1].conditions.length > 0)) {
+        retval.push({ name: (indexPath)?'0':'default', positionUpdateInterval: positionUpdateIntervals[0], staticUpdateInterval: staticUpdateIntervals[0], hold: 0, conditions: [] });
+      }
+      return(retval);
     }
-  
+
+    function makeProfile(profile: any, index: number, positionUpdateInterval: number, staticUpdateInterval: number): Profile {
+      var name: string = ((profile) && (profile.name))?profile.name:`${index}`;
+
+      if ((!profile) || (typeof profile !== 'object')) throw new Error(`invalid profile '${name}' (not an object)`);
+      if ((profile.when !== undefined) && (!Array.isArray(profile.when))) throw new Error(`invalid profile '${name}' ('when' is not an array)`);
+      return({
+        name: name,
+        positionUpdateInterval: (profile.positionUpdateInterval !== undefined)?parseInterval(profile.positionUpdateInterval):positionUpdateInterval,
+        staticUpdateInterval: (profile.staticUpdateInterval !== undefined)?parseInterval(profile.staticUpdateInterval):staticUpdateInterval,
+        hold: (profile.hold !== undefined)?parseInterval(profile.hold):0,
+        conditions: (profile.when || []).map((condition: any) => {
+          if ((!condition) || (typeof condition.path !== 'string')) throw new Error(`invalid profile '${name}' (condition has no 'path')`);
+          if (!OPERATORS.includes(condition.operator)) throw new Error(`invalid profile '${name}' (invalid operator '${condition.operator}')`);
+          if ((condition.value === undefined) || ((![ '==', '!=' ].includes(condition.operator)) && (typeof condition.value !== 'number'))) throw new Error(`invalid profile '${name}' (invalid value for '${condition.path}')`);
+          if ((condition.hysteresis !== undefined) && ((typeof condition.hysteresis !== 'number') || (condition.hysteresis < 0))) throw new Error(`invalid profile '${name}' (invalid hysteresis for '${condition.path}')`);
+          return({ path: condition.path, operator: condition.operator, value: condition.value, hysteresis: condition.hysteresis || 0 });
+        })
+      });
+    }
+
+    /**
+     * Make the PrivacyFilter for the host vessel, unless this is a
+     * trusted endpoint which always receives full-precision data.
+     */
+    function makePrivacyFilter(privacy: any): PrivacyFilter | undefined {
+      if ((!privacy) || (option.trusted === true)) return(undefined);
+      return(new PrivacyFilter(privacy, parseInterval((privacy.delay !== undefined)?privacy.delay:0)));
+    }
+
+    /**
+     * Make the ChangeFilter for a vessel group from the 'skipUnchanged'
+     * property, returning undefined if unchanged reports are not to be
+     * skipped.
+     */
+    function makeChangeFilter(skipUnchanged: any): ChangeFilter | undefined {
+      if (skipUnchanged === undefined) return(undefined);
+      if ((!skipUnchanged) || (typeof skipUnchanged !== 'object')) throw new Error('invalid \'skipUnchanged\' property (not an object)');
+      if ((skipUnchanged.minimumDistance !== undefined) && ((typeof skipUnchanged.minimumDistance !== 'number') || (skipUnchanged.minimumDistance < 0))) throw new Error(`invalid 'skipUnchanged.minimumDistance' property (${skipUnchanged.minimumDistance})`);
+      return(new ChangeFilter({
+        minimumDistance: skipUnchanged.minimumDistance || 0,
+        keepAlive: parseInterval((skipUnchanged.keepAlive !== undefined)?skipUnchanged.keepAlive:defaults.UNCHANGED_KEEP_ALIVE)
+      }));
+    }
+
+    /**
+     * Make the socket options for a UDP endpoint. Broadcast, multicast
+     * and interface selection are meaningless for other protocols and
+     * are rejected.
+     */
+    function makeUdpOptions(option: any, protocol: string): UdpTransportOptions {
+      var multicast: any = option.multicast;
+
+      if (protocol != 'udp') [ 'broadcast', 'multicast', 'interface' ].forEach((name) => { if (option[name] !== undefined) throw new Error(`'${name}' property requires protocol 'udp'`); });
+      if ((option.interface !== undefined) && ((typeof option.interface !== 'string') || (isIP(option.interface) == 0))) throw new Error(`invalid 'interface' property (${option.interface})`);
+      if ((multicast !== undefined) && ((!multicast) || (typeof multicast !== 'object'))) throw new Error('invalid \'multicast\' property (not an object)');
+      if ((multicast) && (multicast.ttl !== undefined) && ((!Number.isInteger(multicast.ttl)) || (multicast.ttl < 0) || (multicast.ttl > 255))) throw new Error(`invalid 'multicast.ttl' property (${multicast.ttl})`);
+      return({
+        interface: option.interface,
+        broadcast: (option.broadcast === true),
+        multicast: (multicast)?{ ttl: (multicast.ttl !== undefined)?multicast.ttl:defaults.MULTICAST_TTL, loopback: (multicast.loopback === true) }:undefined,
+        resolveInterval: parseInterval(getOption([option, options], 'resolveInterval', defaults.RESOLVE_INTERVAL))
+      });
+    }
+
+    /**
+     * Make the options for a 'file' endpoint, which writes reports to a
+     * log file that is rotated when it reaches a maximum size. The
+     * log file must lie within the plugin's data directory, so 'path'
+     * must be relative and may not contain '..'. The 'path' and
+     * 'rotate' properties are rejected for other protocols.
+     */
+    function makeFileOptions(option: any, protocol: string): FileTransportOptions | undefined {
+      var rotate: any = option.rotate;
+
+      if (protocol != 'file') {
+        [ 'path', 'rotate' ].forEach((name) => { if (option[name] !== undefined) throw new Error(`'${name}' property requires protocol 'file'`); });
+        return(undefined);
+      }
+      if (typeof option.path !== 'string') throw new Error(`invalid 'path' property (${option.path})`);
+      if ((isAbsolute(option.path)) || (option.path.split(/[\\/]/).includes('..'))) throw new Error(`invalid 'path' property (${option.path}) (must be relative to the plugin data directory and not contain '..')`);
+      if ((rotate !== undefined) && ((!rotate) || (typeof rotate !== 'object'))) throw new Error('invalid \'rotate\' property (not an object)');
+      if ((rotate) && (rotate.maxSize !== undefined) && ((typeof rotate.maxSize !== 'number') || (rotate.maxSize <= 0))) throw new Error(`invalid 'rotate.maxSize' property (${rotate.maxSize})`);
+      if ((rotate) && (rotate.maxFiles !== undefined) && ((!Number.isInteger(rotate.maxFiles)) || (rotate.maxFiles < 0))) throw new Error(`invalid 'rotate.maxFiles' property (${rotate.maxFiles})`);
+      return({
+        path: option.path,
+        maxSize: ((rotate) && (rotate.maxSize !== undefined))?rotate.maxSize:defaults.FILE_MAX_SIZE,
+        maxFiles: ((rotate) && (rotate.maxFiles !== undefined))?rotate.maxFiles:defaults.FILE_MAX_FILES
+      });
+    }
+
+    /**
+     * Make the options for an endpoint's store-and-forward queue from
+     * the 'queue' property, returning undefined if queueing is not
+     * required.
+     */
+    function makeQueueOptions(queue: any): QueueOptions | undefined {
+      if (queue === undefined) return(undefined);
+      if ((!queue) || (typeof queue !== 'object')) throw new Error('invalid \'queue\' property (not an object)');
+      if ((queue.maxBytes !== undefined) && ((typeof queue.maxBytes !== 'number') || (queue.maxBytes <= 0))) throw new Error(`invalid 'queue.maxBytes' property (${queue.maxBytes})`);
+      if ((queue.linkPath !== undefined) && (typeof queue.linkPath !== 'string')) throw new Error(`invalid 'queue.linkPath' property (${queue.linkPath})`);
+      if ((queue.linkUpValues !== undefined) && (!Array.isArray(queue.linkUpValues))) throw new Error('invalid \'queue.linkUpValues\' property (not an array)');
+      return({
+        maxBytes: queue.maxBytes || defaults.QUEUE_MAX_BYTES,
+        maxAge: parseInterval((queue.maxAge !== undefined)?queue.maxAge:defaults.QUEUE_MAX_AGE),
+        linkPath: queue.linkPath,
+        linkUpValues: queue.linkUpValues
+      });
+    }
+
+    /**
+     * Make the EndpointHealth which tracks delivery to the endpoint
+     * from the 'health' property.
+     */
+    function makeHealth(health: any): EndpointHealth {
+      if ((!health) || (typeof health !== 'object')) throw new Error('invalid \'health\' property (not an object)');
+      [ 'warnErrors', 'alertErrors' ].forEach((name) => {
+        if ((health[name] !== undefined) && ((!Number.isInteger(health[name])) || (health[name] < 1))) throw new Error(`invalid 'health.${name}' property (${health[name]})`);
+      });
+      return(new EndpointHealth({
+        warnErrors: health.warnErrors || defaults.HEALTH_WARN_ERRORS,
+        alertErrors: health.alertErrors || defaults.HEALTH_ALERT_ERRORS,
+        silence: parseInterval((health.silence !== undefined)?health.silence:defaults.HEALTH_SILENCE)
+      }));
+    }
+
     function getOption(objects: any[], name: string, fallback: any): any {
       if (objects.length == 0) {
         return(fallback);
@@ -75,19 +326,23 @@ export class Endpoint {
   }
 
   updateStatistics(reportType: string, update: ReportStatistics) {
-    this.statistics.totalBytes += (update.self.bytes + update.others.bytes);
+    this.statistics.totalBytes += (update.self.bytes + update.others.bytes + update.fleet.bytes);
     switch (reportType) {
       case 'position':
-        this.statistics.position.self.reports += update.self.reports;
-        this.statistics.position.self.bytes += update.self.bytes;
-        this.statistics.position.others.reports += update.others.reports;
-        this.statistics.position.others.bytes += update.others.bytes;
-        break;
       case 'static':
-        this.statistics.static.self.reports += update.self.reports;
-        this.statistics.static.self.bytes += update.self.bytes;
-        this.statistics.static.others.reports += update.others.reports;
-        this.statistics.static.others.bytes += update.others.bytes;
+        STATISTICS_BUCKETS.forEach((bucket) => {
+          let counts: ReportCounts = this.statistics[<'position' | 'static'>reportType][bucket];
+
+          counts.reports += update[bucket].reports;
+          counts.bytes += update[bucket].bytes;
+          counts.suppressed += update[bucket].suppressed;
+          counts.errors += update[bucket].errors;
+        });
+        break;
+      case 'relayed':
+        this.statistics.relayed.others.reports += update.others.reports;
+        this.statistics.relayed.others.bytes += update.others.bytes;
+        this.statistics.relayed.others.errors += update.others.errors;
         break;
       default:
         break;
@@ -96,29 +351,90 @@ export class Endpoint {
 
 }
 
-export type { ReportStatistics };
+/**
+ * Make an empty ReportStatistics. Reports are counted in buckets for
+ * the host vessel ('self'), the vessels of its managed fleet ('fleet')
+ * and all other vessels and targets ('others').
+ */
+export function makeReportStatistics(): ReportStatistics {
+  return({
+    self: { reports: 0, bytes: 0, suppressed: 0, errors: 0 },
+    others: { reports: 0, bytes: 0, suppressed: 0, errors: 0 },
+    fleet: { reports: 0, bytes: 0, suppressed: 0, errors: 0 }
+  });
+}
+
+/**
+ * Make the key which identifies an endpoint in the names of its files
+ * and in Signal K notification paths from the endpoint's name.
+ * Distinct names can share a key, so names must be unique by key.
+ */
+export function makeEndpointKey(name: string): string {
+  return(String(name).replace(/[^\w-]/g, '_'));
+}
+
+/**
+ * Convert an interval expressed either as a number of minutes or as a
+ * string with a unit suffix ('30s', '5m', '1h') into seconds.
+ */
+export function parseInterval(value: any): number {
+  var matches: RegExpMatchArray | null;
+
+  if ((typeof value === 'number') && (value >= 0)) return(value * 60);
+  if ((typeof value === 'string') && (matches = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smh]?)$/))) {
+    return(parseFloat(matches[1]) * ((matches[2] == 's')?1:((matches[2] == 'h')?3600:60)));
+  }
+  throw new Error(`invalid interval (${value})`);
+}
+
+export type { ReportCounts, ReportStatistics, Statistics, StatisticsBucket, Vessel };
 
 interface Vessel {
   expiryInterval: number,
-  positionUpdateIntervals: number[],
-  staticUpdateIntervals: number[],
-  updateIntervalIndexPath: string,
+  profiles: ProfileSelector,
+  extendedClassB: boolean,
+  minimumReportInterval: number,
+  maximumReportInterval: number,
+  geoFilter: GeoFilter | undefined,
+  rules: VesselRuleSet | undefined,
+  privacy: PrivacyFilter | undefined,
+  changeFilter: ChangeFilter | undefined,
+  adaptive: AdaptiveScheduler | undefined
+}
+
+interface Schedule {
+  startAt: number,
+  position: {
+    self: number,
+    others: number
+  },
+  static: {
+    self: number,
+    others: number
+  },
+  targets: { [group: string]: number },
+  fleet: { [key: string]: { position: number, static: number } }
 }
 
 interface Statistics {
   started: number | undefined,
   totalBytes: number,  
   position: ReportStatistics,
-  static: ReportStatistics
+  static: ReportStatistics,
+  relayed: ReportStatistics
+}
+
+type StatisticsBucket = 'self' | 'others' | 'fleet';
+
+interface ReportCounts {
+  reports: number,
+  bytes: number,
+  suppressed: number,
+  errors: number
 }
 
 interface ReportStatistics {
-  self: {
-    reports: number,
-    bytes: number
-  },
-  others: {
-    reports: number,
-    bytes: number
-  }
-}
\ No newline at end of file
+  self: ReportCounts,
+  others: ReportCounts,
+  fleet: ReportCounts
+}
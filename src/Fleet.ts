@@ -0,0 +1,119 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as _ from 'lodash';
+
+const AIS_CLASSES: string[] = [ 'A', 'B' ];
+const DEFAULT_AIS_CLASS: string = 'B';
+
+/**
+ * A vessel managed from the host vessel (for example a tender or a
+ * committee boat) which has no AIS transponder of its own but whose
+ * position reaches Signal K in another vessel context.
+ *
+ * A member is identified either by its MMSI, in which case it is the
+ * Signal K vessel with that MMSI, or by its Signal K context (for
+ * example 'vessels.urn:mrn:signalk:uuid:...'), in which case it is
+ * reported using the configured MMSI or, failing that, the MMSI held
+ * by Signal K. Static data overrides are keyed by Signal K path and
+ * replace the vessel's own data when reports are made.
+ *
+ * Invalid configurations cause an exception.
+ */
+export class FleetMember {
+
+  public key: string;
+  public mmsi: string | undefined;
+  public context: string | undefined;
+  public aisClass: string;
+  public option: any;
+
+  private overrides: { [path: string]: any };
+
+  /**
+   * @param entry - 'fleet' array entry: an MMSI, a Signal K context or
+   * an object.
+   * @param index - position of the entry in the 'fleet' array.
+   */
+  constructor(entry: any, index: number) {
+    var option: any = (typeof entry === 'object')?entry:(/^\d{9}$/.test(entry)?{ mmsi: entry }:{ context: entry });
+
+    if ((!option) || (Array.isArray(option))) throw new Error(`invalid 'fleet[${index}]' property (not an MMSI, context or object)`);
+    if ((option.mmsi !== undefined) && (!/^\d{9}$/.test(`${option.mmsi}`))) throw new Error(`invalid 'fleet[${index}].mmsi' property (${option.mmsi})`);
+    if ((option.context !== undefined) && ((typeof option.context !== 'string') || (!option.context.startsWith('vessels.')))) throw new Error(`invalid 'fleet[${index}].context' property (${option.context})`);
+    if ((option.mmsi === undefined) && (option.context === undefined)) throw new Error(`'fleet[${index}]' requires an 'mmsi' or 'context' property`);
+    if ((option.aisClass !== undefined) && (!AIS_CLASSES.includes(option.aisClass))) throw new Error(`invalid 'fleet[${index}].aisClass' property (${option.aisClass})`);
+    if ((option.static !== undefined) && ((!option.static) || (typeof option.static !== 'object') || (Array.isArray(option.static)))) throw new Error(`invalid 'fleet[${index}].static' property (not an object)`);
+
+    this.mmsi = (option.mmsi !== undefined)?`${option.mmsi}`:undefined;
+    this.context = option.context;
+    this.key = this.mmsi || <string>this.context;
+    this.aisClass = option.aisClass || DEFAULT_AIS_CLASS;
+    this.overrides = option.static || {};
+    this.option = option;
+  }
+
+  /**
+   * Find the member's Signal K vessel.
+   *
+   * @param vessels - Signal K 'vessels' object.
+   * @returns - Signal K vessel object or undefined if the vessel is
+   * unknown.
+   */
+  find(vessels: any): any {
+    if (this.context) return(_.get(vessels, this.context.slice(8).split('.'), undefined));
+    return(Object.values(vessels || {}).find((vessel: any) => (vessel.mmsi == this.mmsi)));
+  }
+
+  /**
+   * Make the vessel object from which the member's reports are built
+   * by applying the member's MMSI and static data overrides to its
+   * Signal K vessel. The Signal K vessel is not modified.
+   *
+   * @param vessel - Signal K vessel object.
+   * @returns - vessel object for reporting.
+   */
+  apply(vessel: any): any {
+    var retval: any = Object.assign({}, vessel, { mmsi: this.mmsi || vessel.mmsi });
+
+    Object.keys(this.overrides).forEach((path) => {
+      let parent: string = path.split('.')[0];
+
+      if (retval[parent] === vessel[parent]) retval[parent] = _.cloneDeep(vessel[parent]);
+      _.set(retval, path, this.overrides[path]);
+    });
+    return(retval);
+  }
+
+}
+
+/**
+ * Make the managed fleet from the 'fleet' property.
+ *
+ * @param fleet - 'fleet' property value (may be undefined).
+ * @returns - array of FleetMember.
+ */
+export function makeFleet(fleet: any): FleetMember[] {
+  var retval: FleetMember[];
+
+  if (fleet === undefined) return([]);
+  if (!Array.isArray(fleet)) throw new Error('invalid \'fleet\' property (not an array)');
+  retval = fleet.map((entry: any, index: number) => new FleetMember(entry, index));
+  retval.forEach((member, index) => {
+    if (retval.slice(0, index).some((m) => (m.key == member.key))) throw new Error(`duplicate fleet member '${member.key}'`);
+  });
+  return(retval);
+}
@@ -0,0 +1,161 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const EARTH_RADIUS_NM: number = 3440.065;
+
+/**
+ * Geographic filter which decides whether or not a vessel's position
+ * lies within the area of interest to an endpoint.
+ *
+ * The area can be restricted to a radius around the host vessel's own
+ * position, to the inside of one or more 'include' polygons and to the
+ * outside of one or more 'exclude' polygons. Polygons are supplied as
+ * GeoJSON Polygon, MultiPolygon, Feature or FeatureCollection objects.
+ *
+ * Invalid configurations cause an exception.
+ */
+export class GeoFilter {
+
+  private radius: number | undefined;
+  private include: Polygon[];
+  private exclude: Polygon[];
+
+  constructor(radius: any, geofence: any) {
+    if ((radius !== undefined) && ((typeof radius !== 'number') || (radius <= 0))) throw new Error(`invalid 'radius' property (${radius})`);
+    this.radius = radius;
+    this.include = getPolygons((geofence || {}).include, 'geofence.include');
+    this.exclude = getPolygons((geofence || {}).exclude, 'geofence.exclude');
+  }
+
+  /**
+   * Check whether a position passes the filter.
+   *
+   * @param position - position to be checked.
+   * @param ownPosition - position of the host vessel or undefined if
+   * this is not known.
+   * @returns - true if the position lies within the area of interest.
+   */
+  accepts(position: Position, ownPosition: Position | undefined): boolean {
+    if (this.radius !== undefined) {
+      if (!ownPosition) return(false);
+      if (distanceBetween(position, ownPosition) > this.radius) return(false);
+    }
+    if ((this.include.length > 0) && (!this.include.some((polygon) => insidePolygon(position, polygon)))) return(false);
+    if (this.exclude.some((polygon) => insidePolygon(position, polygon))) return(false);
+    return(true);
+  }
+
+}
+
+/**
+ * Make a GeoFilter from configuration properties, returning undefined
+ * if the properties specify no filtering.
+ *
+ * @param radius - radius in nautical miles or undefined.
+ * @param geofence - object with optional 'include' and 'exclude'
+ * properties or undefined.
+ * @returns - a GeoFilter or undefined.
+ */
+export function makeGeoFilter(radius: any, geofence: any): GeoFilter | undefined {
+  return(((radius !== undefined) || (geofence !== undefined))?new GeoFilter(radius, geofence):undefined);
+}
+
+/**
+ * Get the great circle distance between two positions.
+ *
+ * @param a - first position.
+ * @param b - second position.
+ * @returns - distance in nautical miles.
+ */
+export function distanceBetween(a: Position, b: Position): number {
+  var dLat: number = toRadians(b.latitude - a.latitude);
+  var dLon: number = toRadians(b.longitude - a.longitude);
+  var h: number = Math.pow(Math.sin(dLat / 2), 2) + (Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.pow(Math.sin(dLon / 2), 2));
+  return(2 * EARTH_RADIUS_NM * Math.asin(Math.min(1, Math.sqrt(h))));
+}
+
+/**
+ * Check whether a position lies inside a polygon (and outside any of
+ * its holes).
+ */
+export function insidePolygon(position: Position, polygon: Polygon): boolean {
+  return((insideRing(position, polygon[0])) && (!polygon.slice(1).some((hole) => insideRing(position, hole))));
+}
+
+/**
+ * Collect the polygons from a GeoJSON object or array of objects.
+ *
+ * Invalid GeoJSON causes an exception.
+ *
+ * @param geojson - GeoJSON object, array of GeoJSON objects or
+ * undefined.
+ * @param name - configuration property name used in error messages.
+ * @returns - array of Polygon.
+ */
+export function getPolygons(geojson: any, name: string): Polygon[] {
+  if (geojson === undefined) return([]);
+  if (Array.isArray(geojson)) return(geojson.reduce((a: Polygon[], g: any) => a.concat(getPolygons(g, name)), []));
+  switch (geojson.type) {
+    case 'FeatureCollection':
+      return(getPolygons(geojson.features, name));
+    case 'Feature':
+      return(getPolygons(geojson.geometry, name));
+    case 'Polygon':
+      return([ checkPolygon(geojson.coordinates, name) ]);
+    case 'MultiPolygon':
+      if (!Array.isArray(geojson.coordinates)) throw new Error(`invalid '${name}' property (MultiPolygon has no coordinates)`);
+      return(geojson.coordinates.map((coordinates: any) => checkPolygon(coordinates, name)));
+    default:
+      throw new Error(`invalid '${name}' property (unsupported GeoJSON type '${(geojson || {}).type}')`);
+  }
+}
+
+function checkPolygon(coordinates: any, name: string): Polygon {
+  if ((!Array.isArray(coordinates)) || (coordinates.length == 0)) throw new Error(`invalid '${name}' property (Polygon has no coordinates)`);
+  coordinates.forEach((ring: any) => {
+    if ((!Array.isArray(ring)) || (ring.length < 4)) throw new Error(`invalid '${name}' property (Polygon ring has fewer than four positions)`);
+    ring.forEach((point: any) => {
+      if ((!Array.isArray(point)) || (point.length < 2) || (typeof point[0] !== 'number') || (typeof point[1] !== 'number')) throw new Error(`invalid '${name}' property (bad position ${JSON.stringify(point)})`);
+    });
+  });
+  return(coordinates);
+}
+
+/**
+ * Ray casting test of whether a position lies inside a linear ring of
+ * [longitude, latitude] points.
+ */
+function insideRing(position: Position, ring: number[][]): boolean {
+  var inside: boolean = false;
+
+  for (var i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    if (((ring[i][1] > position.latitude) != (ring[j][1] > position.latitude)) && (position.longitude < ((ring[j][0] - ring[i][0]) * (position.latitude - ring[i][1]) / (ring[j][1] - ring[i][1]) + ring[i][0]))) {
+      inside = !inside;
+    }
+  }
+  return(inside);
+}
+
+function toRadians(degrees: number): number {
+  return(degrees * Math.PI / 180);
+}
+
+export interface Position {
+  latitude: number,
+  longitude: number
+}
+
+export type Polygon = number[][][];
@@ -0,0 +1,149 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { DeliveryStatus } from './Transport';
+
+const ENCODE_FAILURE_RETENTION: number = 86400000;
+
+/**
+ * Tracks whether reports are reaching an endpoint.
+ *
+ * The state of an endpoint is 'alert' if delivery has failed
+ * 'alertErrors' times in a row or if reports have been sent without
+ * success for longer than the silence interval, and 'warn' if delivery
+ * has failed 'warnErrors' times in a row or if a report for the host
+ * vessel or a vessel of its managed fleet could not be encoded within
+ * the silence interval. Failures to encode reports for other vessels
+ * are recorded by MMSI (for a day) but do not affect the state.
+ */
+export class EndpointHealth {
+
+  public state: HealthState = 'normal';
+  public reason: string | undefined = undefined;
+
+  private options: HealthOptions;
+  private encodeFailures: Map<string, EncodeFailure> = new Map();
+
+  constructor(options: HealthOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Record a failure to encode a report for a vessel.
+   *
+   * @param mmsi - vessel MMSI.
+   * @param group - 'self' for the host vessel, 'fleet' for a vessel of
+   * its managed fleet and 'others' for any other vessel or target.
+   * @param reason - description of the failure.
+   * @param now - current time in milliseconds.
+   */
+  recordEncodeFailure(mmsi: string, group: EncodeFailureGroup, reason: string, now: number) {
+    var failure: EncodeFailure | undefined = this.encodeFailures.get(mmsi);
+
+    this.encodeFailures.set(mmsi, { group: group, count: ((failure)?failure.count:0) + 1, last: now, reason: reason });
+  }
+
+  /**
+   * Recalculate the state of the endpoint.
+   *
+   * @param delivery - DeliveryStatus of the endpoint's transport, or
+   * undefined if it has none.
+   * @param now - current time in milliseconds.
+   * @returns - true if the state has changed.
+   */
+  update(delivery: DeliveryStatus | undefined, now: number): boolean {
+    var previous: HealthState = this.state;
+    var recent: [ string, EncodeFailure ][];
+    var failure: [ string, EncodeFailure ] | undefined;
+
+    this.encodeFailures.forEach((failure, mmsi) => { if (failure.last < (now - ENCODE_FAILURE_RETENTION)) this.encodeFailures.delete(mmsi); });
+    this.state = 'normal';
+    this.reason = undefined;
+    if (delivery) {
+      if (delivery.consecutiveErrors >= this.options.alertErrors) {
+        this.setState('alert', `${delivery.consecutiveErrors} consecutive delivery errors (${(delivery.lastError)?delivery.lastError.message:'unknown error'})`);
+      } else if ((this.options.silence > 0) && (delivery.lastAttempt !== undefined) && ((delivery.lastAttempt - ((delivery.lastSuccess !== undefined)?delivery.lastSuccess:delivery.started)) >= (this.options.silence * 1000))) {
+        this.setState('alert', `no successful delivery since ${(delivery.lastSuccess !== undefined)?(new Date(delivery.lastSuccess)).toISOString():'start'}`);
+      } else if (delivery.consecutiveErrors >= this.options.warnErrors) {
+        this.setState('warn', `${delivery.consecutiveErrors} consecutive delivery errors (${(delivery.lastError)?delivery.lastError.message:'unknown error'})`);
+      }
+    }
+    if (this.state == 'normal') {
+      recent = Array.from(this.encodeFailures.entries()).filter(([ mmsi, f ]) => (f.last >= (now - (this.options.silence * 1000))));
+      if ((failure = recent.find(([ mmsi, f ]) => (f.group == 'self')))) {
+        this.setState('warn', `cannot report 'self' (${failure[1].reason})`);
+      } else if ((failure = recent.find(([ mmsi, f ]) => (f.group == 'fleet')))) {
+        this.setState('warn', `cannot report fleet vessel '${failure[0]}' (${failure[1].reason})`);
+      }
+    }
+    return(this.state != previous);
+  }
+
+  /**
+   * Get the state of the endpoint.
+   *
+   * @param delivery - DeliveryStatus of the endpoint's transport, or
+   * undefined if it has none.
+   * @returns - HealthStatus.
+   */
+  getStatus(delivery: DeliveryStatus | undefined): HealthStatus {
+    return({
+      state: this.state,
+      reason: this.reason,
+      lastSuccess: ((delivery) && (delivery.lastSuccess !== undefined))?(new Date(delivery.lastSuccess)).toISOString():undefined,
+      lastError: ((delivery) && (delivery.lastError))?{ time: (new Date(delivery.lastError.time)).toISOString(), message: delivery.lastError.message }:undefined,
+      consecutiveErrors: (delivery)?delivery.consecutiveErrors:0,
+      unreachable: (delivery)?delivery.unreachable:0,
+      encodeFailures: Array.from(this.encodeFailures.entries()).reduce((a: { [mmsi: string]: { count: number, last: string, reason: string } }, [ mmsi, failure ]) => {
+        a[mmsi] = { count: failure.count, last: (new Date(failure.last)).toISOString(), reason: failure.reason };
+        return(a);
+      }, {})
+    });
+  }
+
+  private setState(state: HealthState, reason: string) {
+    this.state = state;
+    this.reason = reason;
+  }
+
+}
+
+export type HealthState = 'normal' | 'warn' | 'alert';
+
+export type EncodeFailureGroup = 'self' | 'fleet' | 'others';
+
+export interface HealthOptions {
+  warnErrors: number,
+  alertErrors: number,
+  silence: number
+}
+
+interface EncodeFailure {
+  group: EncodeFailureGroup,
+  count: number,
+  last: number,
+  reason: string
+}
+
+export interface HealthStatus {
+  state: HealthState,
+  reason: string | undefined,
+  lastSuccess: string | undefined,
+  lastError: { time: string, message: string } | undefined,
+  consecutiveErrors: number,
+  unreachable: number,
+  encodeFailures: { [mmsi: string]: { count: number, last: string, reason: string } }
+}
@@ -0,0 +1,117 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export const OPENMETRICS_CONTENT_TYPE: string = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/**
+ * Builds an exposition of metrics in the OpenMetrics text format.
+ *
+ * Metric families are declared with their type, help text and
+ * (optionally) unit and samples are then added to them by family name.
+ * The samples of a counter are exposed with the suffix '_total' and,
+ * if a creation time is given, a '_created' sample.
+ */
+export class OpenMetrics {
+
+  private families: Map<string, MetricFamily> = new Map();
+
+  /**
+   * Declare a metric family. A family with a unit must have a name
+   * which ends with the unit.
+   *
+   * @param name - family name.
+   * @param type - 'counter' or 'gauge'.
+   * @param help - description of the family.
+   * @param unit - unit of the family's values (for example 'bytes').
+   */
+  addFamily(name: string, type: MetricType, help: string, unit: string | undefined = undefined) {
+    if ((unit) && (!name.endsWith(`_${unit}`))) throw new Error(`metric family name '${name}' must end with its unit`);
+    this.families.set(name, { name: name, type: type, help: help, unit: unit, samples: [] });
+  }
+
+  /**
+   * Add a sample to a metric family.
+   *
+   * @param name - name of a declared family.
+   * @param labels - label names and values which identify the sample.
+   * @param value - sample value.
+   * @param created - for a counter, the time in milliseconds at which
+   * counting started.
+   */
+  addSample(name: string, labels: Labels, value: number, created: number | undefined = undefined) {
+    var family: MetricFamily | undefined = this.families.get(name);
+
+    if (!family) throw new Error(`undeclared metric family '${name}'`);
+    family.samples.push({ labels: labels, value: value, created: created });
+  }
+
+  toString(): string {
+    var lines: string[] = [];
+
+    this.families.forEach((family) => {
+      lines.push(`# TYPE ${family.name} ${family.type}`);
+      if (family.unit) lines.push(`# UNIT ${family.name} ${family.unit}`);
+      lines.push(`# HELP ${family.name} ${escape(family.help)}`);
+      family.samples.forEach((sample) => {
+        if (family.type == 'counter') {
+          lines.push(`${family.name}_total${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+          if (sample.created !== undefined) lines.push(`${family.name}_created${formatLabels(sample.labels)} ${formatValue(sample.created / 1000)}`);
+        } else {
+          lines.push(`${family.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+        }
+      });
+    });
+    lines.push('# EOF');
+    return(lines.join('\n') + '\n');
+  }
+
+}
+
+function formatLabels(labels: Labels): string {
+  var names: string[] = Object.keys(labels);
+
+  return((names.length == 0)?'':`{${names.map((name) => `${name}="${escape(labels[name])}"`).join(',')}}`);
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return('NaN');
+  if (!Number.isFinite(value)) return((value > 0)?'+Inf':'-Inf');
+  return(`${value}`);
+}
+
+function escape(value: string): string {
+  return(value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n'));
+}
+
+export type MetricType = 'counter' | 'gauge';
+
+export interface Labels {
+  [name: string]: string
+}
+
+interface MetricFamily {
+  name: string,
+  type: MetricType,
+  help: string,
+  unit: string | undefined,
+  samples: MetricSample[]
+}
+
+interface MetricSample {
+  labels: Labels,
+  value: number,
+  created: number | undefined
+}
@@ -0,0 +1,136 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const LINE_ENDINGS: { [key: string]: string } = { 'lf': '\n', 'crlf': '\r\n' };
+const MAX_GROUP_ID: number = 999;
+const MIN_MTU: number = 100;
+const MAX_MTU: number = 65507;
+
+/**
+ * Compute the NMEA checksum (the exclusive-or of all characters) of a
+ * string.
+ *
+ * @param s - sentence or tag block content without delimiters.
+ * @returns - two digit uppercase hexadecimal checksum.
+ */
+export function checksum(s: string): string {
+  var sum: number = 0;
+
+  for (var i = 0; i < s.length; i++) sum ^= s.charCodeAt(i);
+  return(sum.toString(16).toUpperCase().padStart(2, '0'));
+}
+
+/**
+ * Make an NMEA 4.x tag block from an ordered list of parameters.
+ *
+ * @param parameters - array of [ code, value ] pairs (for example
+ * [ 'c', 1734600000 ] for a UNIX time).
+ * @returns - tag block including its '\' delimiters.
+ */
+export function makeTagBlock(parameters: [ string, string | number ][]): string {
+  var content: string = parameters.map((parameter) => `${parameter[0]}:${parameter[1]}`).join(',');
+  return(`\\${content}*${checksum(content)}\\`);
+}
+
+/**
+ * Converts the sentences which make up a report into the lines sent to
+ * an endpoint.
+ *
+ * Depending upon configuration each line can be prefixed by an NMEA
+ * 4.x tag block carrying a station identifier ('s') and a UNIX time
+ * ('c'), and the sentences of a multi-sentence report (for example the
+ * A and B parts of a type 24 message) can be linked by sentence-group
+ * ('g') tags. Reports of the host vessel can be sent as 'AIVDO' rather
+ * than 'AIVDM' sentences and lines are terminated by either LF or CRLF.
+ *
+ * Replayed (historic) reports always carry a 'c' tag giving the time
+ * at which the report was originally made.
+ *
+ * Invalid configurations cause an exception.
+ */
+export class Framer {
+
+  public mtu: number | undefined;
+
+  private stationId: string | undefined;
+  private timestamp: boolean;
+  private groupTags: boolean;
+  private aivdo: boolean;
+  private lineEnding: string;
+  private groupId: number = 0;
+
+  constructor(framing: any) {
+    if ((framing.stationId !== undefined) && ((typeof framing.stationId !== 'string') || (!/^[A-Za-z0-9-]{1,15}$/.test(framing.stationId)))) throw new Error(`invalid 'framing.stationId' property (${framing.stationId})`);
+    if ((framing.lineEnding !== undefined) && (LINE_ENDINGS[framing.lineEnding] === undefined)) throw new Error(`invalid 'framing.lineEnding' property (${framing.lineEnding})`);
+    if ((framing.mtu !== undefined) && ((!Number.isInteger(framing.mtu)) || (framing.mtu < MIN_MTU) || (framing.mtu > MAX_MTU))) throw new Error(`invalid 'framing.mtu' property (must be an integer in the range ${MIN_MTU}..${MAX_MTU})`);
+    this.stationId = framing.stationId;
+    this.timestamp = (framing.timestamp === true);
+    this.groupTags = (framing.groupTags === true);
+    this.aivdo = (framing.aivdo === true);
+    this.lineEnding = LINE_ENDINGS[framing.lineEnding || 'lf'];
+    this.mtu = framing.mtu;
+  }
+
+  /**
+   * Frame the sentences of a report.
+   *
+   * @param sentences - NMEA sentences which make up the report.
+   * @param self - true if the report concerns the host vessel.
+   * @param time - time in milliseconds at which the report was made.
+   * @param historic - true if the report is being replayed.
+   * @returns - array of lines ready for transmission.
+   */
+  frame(sentences: string[], self: boolean, time: number, historic: boolean = false): string[] {
+    var group: boolean = (this.groupTags) && (sentences.length > 1);
+    var groupId: number = (group)?this.nextGroupId():0;
+
+    return(sentences.map((sentence, index) => {
+      let parameters: [ string, string | number ][] = [];
+
+      if (group) parameters.push([ 'g', `${index + 1}-${sentences.length}-${groupId}` ]);
+      if ((index == 0) || (!group)) {
+        if (this.stationId) parameters.push([ 's', this.stationId ]);
+        if ((this.timestamp) || (historic)) parameters.push([ 'c', Math.floor(time / 1000) ]);
+      }
+      if ((self) && (this.aivdo)) sentence = setFormatter(sentence, 'VDO');
+      return(((parameters.length > 0)?makeTagBlock(parameters):'') + sentence + this.lineEnding);
+    }));
+  }
+
+  private nextGroupId(): number {
+    this.groupId = (this.groupId % MAX_GROUP_ID) + 1;
+    return(this.groupId);
+  }
+
+}
+
+/**
+ * Replace the sentence formatter (for example 'VDM') of an AIS
+ * sentence and recompute its checksum.
+ *
+ * @param sentence - NMEA sentence of the form '!AIxxx,...*hh'.
+ * @param formatter - three character sentence formatter.
+ * @returns - modified sentence, or the original sentence if it is not
+ * recognised.
+ */
+export function setFormatter(sentence: string, formatter: string): string {
+  var matches: RegExpMatchArray | null = sentence.match(/^!(..)...(,.*)\*[0-9A-Fa-f]{2}$/);
+  var body: string;
+
+  if (!matches) return(sentence);
+  body = `${matches[1]}${formatter}${matches[2]}`;
+  return(`!${body}*${checksum(body)}`);
+}
@@ -0,0 +1,193 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { appendFileSync, existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+
+const DEFAULT_LINK_UP_VALUES: any[] = [ true, 1, 'up', 'online', 'connected' ];
+
+/**
+ * Disk-backed queue of reports which could not be delivered to an
+ * endpoint because its uplink was down.
+ *
+ * Reports are appended to a JSON lines file as they are queued so
+ * that the backlog survives plugin restarts. The queue is bounded by
+ * the total size of the queued sentences and by the age of the oldest
+ * report; the oldest reports are discarded first. When the backlog is
+ * taken for replay it is collapsed so that only the most recent
+ * position report and the most recent static data report of each
+ * vessel remain.
+ */
+export class OutboundQueue {
+
+  public linkPath: string | undefined;
+
+  private filename: string;
+  private maxBytes: number;
+  private maxAge: number;
+  private linkUpValues: any[];
+  private reports: QueuedReport[] = [];
+  private bytes: number = 0;
+  private discarded: number = 0;
+
+  /**
+   * @param options - QueueOptions for the queue.
+   * @param filename - path of the file in which the queue is kept.
+   */
+  constructor(options: QueueOptions, filename: string) {
+    this.filename = filename;
+    this.maxBytes = options.maxBytes;
+    this.maxAge = options.maxAge * 1000;
+    this.linkPath = options.linkPath;
+    this.linkUpValues = options.linkUpValues || DEFAULT_LINK_UP_VALUES;
+  }
+
+  /**
+   * Load any backlog saved by an earlier session. Unparseable lines
+   * are ignored.
+   *
+   * @param now - current time in milliseconds.
+   */
+  load(now: number) {
+    if (existsSync(this.filename)) {
+      this.reports = readFileSync(this.filename, 'utf8').split('\n').reduce((a: QueuedReport[], line: string) => {
+        try { if (line) a.push(JSON.parse(line)); } catch(e: any) { }
+        return(a);
+      }, []);
+      this.bytes = this.reports.reduce((a, report) => (a + getSize(report)), 0);
+      this.trim(now);
+      this.save();
+    }
+  }
+
+  /**
+   * Add a report to the queue, discarding the oldest reports if the
+   * queue's limits are exceeded.
+   *
+   * @param report - QueuedReport to be added.
+   * @param now - current time in milliseconds.
+   */
+  push(report: QueuedReport, now: number) {
+    this.reports.push(report);
+    this.bytes += getSize(report);
+    if (this.trim(now)) {
+      this.save();
+    } else {
+      appendFileSync(this.filename, JSON.stringify(report) + '\n');
+    }
+  }
+
+  /**
+   * Remove up to a specified number of the oldest reports from the
+   * collapsed backlog.
+   *
+   * @param count - maximum number of reports to take.
+   * @param now - current time in milliseconds.
+   * @returns - array of QueuedReport in time order.
+   */
+  take(count: number, now: number): QueuedReport[] {
+    var retval: QueuedReport[];
+
+    this.trim(now);
+    this.reports = collapse(this.reports);
+    retval = this.reports.splice(0, count);
+    this.bytes = this.reports.reduce((a, report) => (a + getSize(report)), 0);
+    this.save();
+    return(retval);
+  }
+
+  /**
+   * Check a value from the configured Signal K link state path.
+   *
+   * @param value - current value of the path.
+   * @returns - true if the value indicates that the link is up.
+   */
+  isLinkUp(value: any): boolean {
+    return(this.linkUpValues.includes(value));
+  }
+
+  get length(): number {
+    return(this.reports.length);
+  }
+
+  getStatus(): QueueStatus {
+    return({
+      reports: this.reports.length,
+      bytes: this.bytes,
+      oldest: (this.reports.length > 0)?(new Date(this.reports[0].time)).toISOString():undefined,
+      discarded: this.discarded
+    });
+  }
+
+  /**
+   * Discard reports which exceed the queue's age or size limits.
+   *
+   * @returns - true if any reports were discarded.
+   */
+  private trim(now: number): boolean {
+    var count: number = 0;
+
+    while ((this.reports.length > 0) && (((this.maxAge > 0) && (this.reports[0].time < (now - this.maxAge))) || (this.bytes > this.maxBytes))) {
+      this.bytes -= getSize(<QueuedReport>this.reports.shift());
+      count++;
+    }
+    this.discarded += count;
+    return(count > 0);
+  }
+
+  private save() {
+    writeFileSync(`${this.filename}.tmp`, this.reports.map((report) => (JSON.stringify(report) + '\n')).join(''));
+    renameSync(`${this.filename}.tmp`, this.filename);
+  }
+
+}
+
+/**
+ * Reduce a list of reports to the most recent report of each type for
+ * each vessel, preserving time order.
+ */
+function collapse(reports: QueuedReport[]): QueuedReport[] {
+  var latest: Map<string, QueuedReport> = new Map();
+
+  reports.forEach((report) => latest.set(`${report.type}:${report.mmsi}`, report));
+  return(Array.from(latest.values()).sort((a, b) => (a.time - b.time)));
+}
+
+function getSize(report: QueuedReport): number {
+  return(report.sentences.reduce((a, sentence) => (a + sentence.length), 0));
+}
+
+export interface QueueOptions {
+  maxBytes: number,
+  maxAge: number,
+  linkPath: string | undefined,
+  linkUpValues: any[] | undefined
+}
+
+export interface QueuedReport {
+  time: number,
+  type: string,
+  mmsi: string,
+  self: boolean,
+  fleet?: boolean,
+  sentences: string[]
+}
+
+export interface QueueStatus {
+  reports: number,
+  bytes: number,
+  oldest: string | undefined,
+  discarded: number
+}
@@ -0,0 +1,158 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as _ from 'lodash';
+import { Polygon, Position, distanceBetween, getPolygons, insidePolygon } from './GeoFilter';
+
+/**
+ * Time-ordered buffer of the host vessel's recent navigational state
+ * from which delayed position reports can be made.
+ */
+export class PositionHistory {
+
+  public retention: number;
+
+  private entries: HistoryEntry[] = [];
+
+  /**
+   * @param retention - period in milliseconds for which entries are
+   * retained.
+   */
+  constructor(retention: number) {
+    this.retention = retention;
+  }
+
+  /**
+   * Add the host vessel's current navigational state to the buffer if
+   * its position has been updated since the last entry and discard
+   * entries which are no longer needed.
+   *
+   * @param navigation - Signal K 'navigation' object of the host vessel.
+   * @param now - current time in milliseconds.
+   */
+  record(navigation: any, now: number) {
+    var timestamp: number = (new Date(_.get(navigation, 'position.timestamp', 0))).getTime();
+    var last: HistoryEntry | undefined = this.entries[this.entries.length - 1];
+
+    if ((this.retention > 0) && (_.get(navigation, 'position.value', undefined)) && ((!last) || (timestamp > last.time))) {
+      this.entries.push({
+        time: timestamp,
+        navigation: _.cloneDeep(_.pick(navigation, [ 'position', 'speedOverGround', 'courseOverGroundTrue', 'headingTrue', 'rateOfTurn', 'state', 'specialManeuver' ]))
+      });
+    }
+    while ((this.entries.length > 1) && (this.entries[1].time <= (now - this.retention))) this.entries.shift();
+  }
+
+  /**
+   * Get the navigational state which was current at a specified time.
+   *
+   * @param time - time in milliseconds.
+   * @returns - Signal K 'navigation' object or undefined if the buffer
+   * holds nothing as old as the requested time.
+   */
+  at(time: number): any {
+    var entry: HistoryEntry | undefined = _.findLast(this.entries, (entry) => (entry.time <= time));
+    return((entry)?entry.navigation:undefined);
+  }
+
+}
+
+/**
+ * Privacy treatment applied to position reports for the host vessel.
+ *
+ * Reports can be delayed by a fixed period (using the position which
+ * was current that long ago), suppressed while the reported position
+ * lies in one of a number of named home zones and coarsened by
+ * rounding latitude and longitude to a grid.
+ *
+ * Invalid configurations cause an exception.
+ */
+export class PrivacyFilter {
+
+  public delay: number;
+
+  private gridSize: number | undefined;
+  private homeZones: HomeZone[];
+
+  /**
+   * @param privacy - 'privacy' configuration property.
+   * @param delay - delay in seconds.
+   */
+  constructor(privacy: any, delay: number) {
+    if ((privacy.gridSize !== undefined) && ((typeof privacy.gridSize !== 'number') || (privacy.gridSize <= 0))) throw new Error(`invalid 'privacy.gridSize' property (${privacy.gridSize})`);
+    if ((privacy.homeZones !== undefined) && (!Array.isArray(privacy.homeZones))) throw new Error('invalid \'privacy.homeZones\' property (not an array)');
+    this.delay = delay * 1000;
+    this.gridSize = privacy.gridSize;
+    this.homeZones = (privacy.homeZones || []).map((zone: any, index: number) => makeHomeZone(zone, `privacy.homeZones[${index}]`));
+  }
+
+  /**
+   * Apply the privacy treatment to the host vessel.
+   *
+   * @param vessel - Signal K vessel object for the host vessel.
+   * @param history - PositionHistory of the host vessel.
+   * @param now - current time in milliseconds.
+   * @returns - a copy of the vessel object with a modified 'navigation'
+   * property or undefined if no report should be made.
+   */
+  apply(vessel: any, history: PositionHistory, now: number): any {
+    var navigation: any = (this.delay > 0)?history.at(now - this.delay):vessel.navigation;
+    var position: Position | undefined = _.get(navigation, 'position.value', undefined);
+
+    if ((!navigation) || (!position)) return(undefined);
+    if (this.homeZones.some((zone) => isInside(<Position>position, zone))) return(undefined);
+    if (this.gridSize) {
+      navigation = Object.assign({}, navigation, { position: Object.assign({}, navigation.position, { value: {
+        latitude: roundTo(position.latitude, this.gridSize),
+        longitude: roundTo(position.longitude, this.gridSize)
+      }})});
+    }
+    return(Object.assign({}, vessel, { navigation: Object.assign({}, vessel.navigation, navigation) }));
+  }
+
+}
+
+function makeHomeZone(zone: any, name: string): HomeZone {
+  if ((!zone) || (typeof zone !== 'object')) throw new Error(`invalid '${name}' property (not an object)`);
+  if (zone.geofence !== undefined) {
+    return({ name: zone.name || name, polygons: getPolygons(zone.geofence, `${name}.geofence`) });
+  }
+  if ((typeof zone.latitude !== 'number') || (typeof zone.longitude !== 'number') || (typeof zone.radius !== 'number') || (zone.radius <= 0)) {
+    throw new Error(`invalid '${name}' property (requires 'geofence' or 'latitude', 'longitude' and 'radius')`);
+  }
+  return({ name: zone.name || name, centre: { latitude: zone.latitude, longitude: zone.longitude }, radius: zone.radius });
+}
+
+function isInside(position: Position, zone: HomeZone): boolean {
+  if (zone.polygons) return(zone.polygons.some((polygon) => insidePolygon(position, polygon)));
+  return(distanceBetween(position, <Position>zone.centre) <= <number>zone.radius);
+}
+
+function roundTo(value: number, gridSize: number): number {
+  return(parseFloat((Math.round(value / gridSize) * gridSize).toFixed(6)));
+}
+
+interface HistoryEntry {
+  time: number,
+  navigation: any
+}
+
+interface HomeZone {
+  name: string,
+  polygons?: Polygon[],
+  centre?: Position,
+  radius?: number
+}
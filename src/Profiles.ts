@@ -0,0 +1,132 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export const OPERATORS: string[] = [ '==', '!=', '>', '>=', '<', '<=' ];
+
+/**
+ * Chooses the reporting intervals of a vessel group from an ordered
+ * list of named profiles.
+ *
+ * Each profile has a list of conditions on Signal K paths, all of
+ * which must be satisfied for the profile to be selected, and the
+ * first profile whose conditions are satisfied is selected. The last
+ * profile always has no conditions and so acts as a default.
+ *
+ * Two mechanisms stop the selection flapping when a value hovers
+ * around a threshold. While a profile is active, each of its numeric
+ * conditions is relaxed by the condition's hysteresis. A newly selected
+ * profile only becomes active once it has been selected continuously
+ * for the profile's hold time.
+ */
+export class ProfileSelector {
+
+  private profiles: Profile[];
+  private active: Profile;
+  private since: number | undefined = undefined;
+  private candidate: { profile: Profile, since: number } | undefined = undefined;
+
+  /**
+   * @param profiles - array of Profile, the last of which must have no
+   * conditions.
+   */
+  constructor(profiles: Profile[]) {
+    this.profiles = profiles;
+    this.active = profiles[profiles.length - 1];
+  }
+
+  /**
+   * Re-evaluate the profiles and get the active profile.
+   *
+   * @param getValue - function returning the current value of a
+   * Signal K path.
+   * @param now - current time in milliseconds.
+   * @returns - the active Profile.
+   */
+  update(getValue: (path: string) => any, now: number): Profile {
+    var selected: Profile = <Profile>this.profiles.find((profile) => profile.conditions.every((condition) => isSatisfied(condition, getValue(condition.path), (profile === this.active))));
+
+    if ((this.since === undefined) || (selected === this.active)) {
+      if (this.since === undefined) { this.active = selected; this.since = now; }
+      this.candidate = undefined;
+    } else {
+      if ((!this.candidate) || (this.candidate.profile !== selected)) this.candidate = { profile: selected, since: now };
+      if ((now - this.candidate.since) >= (selected.hold * 1000)) {
+        this.active = selected;
+        this.since = now;
+        this.candidate = undefined;
+      }
+    }
+    return(this.active);
+  }
+
+  getActive(): Profile {
+    return(this.active);
+  }
+
+  getStatus(): ProfileStatus {
+    return({
+      active: this.active.name,
+      since: (this.since !== undefined)?(new Date(this.since)).toISOString():undefined,
+      pending: (this.candidate)?this.candidate.profile.name:undefined
+    });
+  }
+
+}
+
+/**
+ * Check a condition against a value. A missing value never satisfies
+ * a condition.
+ *
+ * @param condition - Condition to be checked.
+ * @param value - current value of the condition's path.
+ * @param active - true if the condition belongs to the active profile
+ * and so should be relaxed by its hysteresis.
+ */
+function isSatisfied(condition: Condition, value: any, active: boolean): boolean {
+  var hysteresis: number = (active)?condition.hysteresis:0;
+
+  if ((value === undefined) || (value === null)) return(false);
+  switch (condition.operator) {
+    case '==': return(value == condition.value);
+    case '!=': return(value != condition.value);
+    case '>': return(value > (condition.value - hysteresis));
+    case '>=': return(value >= (condition.value - hysteresis));
+    case '<': return(value < (condition.value + hysteresis));
+    case '<=': return(value <= (condition.value + hysteresis));
+    default: return(false);
+  }
+}
+
+export interface Profile {
+  name: string,
+  positionUpdateInterval: number,
+  staticUpdateInterval: number,
+  hold: number,
+  conditions: Condition[]
+}
+
+export interface Condition {
+  path: string,
+  operator: string,
+  value: any,
+  hysteresis: number
+}
+
+export interface ProfileStatus {
+  active: string,
+  since: string | undefined,
+  pending: string | undefined
+}
@@ -0,0 +1,149 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { checksum } from './Nmea';
+
+const FRAGMENT_TIMEOUT: number = 10000;
+const STATIC_MESSAGE_TYPES: number[] = [ 5, 24 ];
+const CLASS_A_MESSAGE_TYPES: number[] = [ 1, 2, 3, 5 ];
+const CLASS_B_MESSAGE_TYPES: number[] = [ 18, 19, 24 ];
+
+/**
+ * Reassembles the AIVDM sentences received by the server into complete
+ * AIS messages.
+ *
+ * Sentences with an invalid checksum and sentences other than AIVDM
+ * (including the host vessel's own AIVDO sentences) are ignored. Any
+ * NMEA 4.x tag block is discarded. The fragments of a multi-sentence
+ * message are held until the message is complete; incomplete messages
+ * are abandoned after ten seconds.
+ */
+export class AisAssembler {
+
+  private fragments: Map<string, { time: number, sentences: string[] }> = new Map();
+
+  /**
+   * Process a received sentence.
+   *
+   * @param line - sentence as received, possibly with a tag block.
+   * @param now - current time in milliseconds.
+   * @returns - the AisMessage completed by the sentence, or undefined.
+   */
+  accept(line: string, now: number): AisMessage | undefined {
+    var sentence: string = line.trim().replace(/^\\[^\\]*\\/, '');
+    var matches: RegExpMatchArray | null = sentence.match(/^!(AIVDM,(\d),(\d),(\d?),([^,]*),([^,]*),\d)\*([0-9A-Fa-f]{2})$/);
+    var count: number, index: number, key: string, group: { time: number, sentences: string[] } | undefined;
+
+    if ((!matches) || (checksum(matches[1]) != matches[7].toUpperCase())) return(undefined);
+    count = parseInt(matches[2]);
+    index = parseInt(matches[3]);
+    if (count == 1) return(makeMessage([ sentence ]));
+
+    this.fragments.forEach((group, key) => { if (group.time < (now - FRAGMENT_TIMEOUT)) this.fragments.delete(key); });
+    key = `${matches[4]}:${matches[5]}`;
+    if (index == 1) this.fragments.set(key, { time: now, sentences: [] });
+    if (!(group = this.fragments.get(key)) || (group.sentences.length != (index - 1))) return(undefined);
+    group.sentences.push(sentence);
+    if (index < count) return(undefined);
+    this.fragments.delete(key);
+    return(makeMessage(group.sentences));
+  }
+
+}
+
+/**
+ * Per-endpoint rate limiter for relayed AIS messages.
+ *
+ * At most one message of each type (and, for type 24, of each part)
+ * is relayed for each vessel in each reporting interval, so repeated
+ * transmissions and duplicate receptions of the same message are
+ * dropped. Vessels which have not been relayed for longer than the
+ * expiry interval are forgotten.
+ */
+export class RelayFilter {
+
+  private expiryInterval: number;
+  private relayed: Map<string, number> = new Map();
+
+  /**
+   * @param expiryInterval - expiry interval in seconds.
+   */
+  constructor(expiryInterval: number) {
+    this.expiryInterval = expiryInterval * 1000;
+  }
+
+  /**
+   * Decide whether or not to relay a message.
+   *
+   * @param message - AisMessage to be relayed.
+   * @param interval - reporting interval in seconds for messages of
+   * this kind (0 disables).
+   * @param now - current time in milliseconds.
+   * @returns - true if the message should be relayed.
+   */
+  claim(message: AisMessage, interval: number, now: number): boolean {
+    var last: number | undefined = this.relayed.get(message.key);
+
+    if ((interval === 0) || ((last !== undefined) && ((now - last) < (interval * 1000)))) return(false);
+    this.relayed.set(message.key, now);
+    return(true);
+  }
+
+  /**
+   * Forget vessels which have not been relayed recently.
+   *
+   * @param now - current time in milliseconds.
+   */
+  expire(now: number) {
+    this.relayed.forEach((last, key) => { if (last < (now - this.expiryInterval)) this.relayed.delete(key); });
+  }
+
+}
+
+/**
+ * Decode the message type, MMSI and (for type 24) part number from the
+ * payload of the first sentence of a message. Messages which only
+ * class A or only class B stations transmit imply the AIS class of the
+ * sender.
+ */
+function makeMessage(sentences: string[]): AisMessage | undefined {
+  var payload: string = sentences[0].split(',')[5];
+  var bits: string = payload.slice(0, 7).split('').map((c) => {
+    let value: number = c.charCodeAt(0) - 48;
+    return(((value > 40)?(value - 8):value).toString(2).padStart(6, '0'));
+  }).join('');
+  var type: number = parseInt(bits.slice(0, 6), 2);
+  var mmsi: string = parseInt(bits.slice(8, 38), 2).toString().padStart(9, '0');
+
+  if (bits.length < 40) return(undefined);
+  return({
+    type: type,
+    mmsi: mmsi,
+    key: `${mmsi}:${type}${(type == 24)?`:${parseInt(bits.slice(38, 40), 2)}`:''}`,
+    static: STATIC_MESSAGE_TYPES.includes(type),
+    aisClass: (CLASS_A_MESSAGE_TYPES.includes(type))?'A':((CLASS_B_MESSAGE_TYPES.includes(type))?'B':undefined),
+    sentences: sentences
+  });
+}
+
+export interface AisMessage {
+  type: number,
+  mmsi: string,
+  key: string,
+  static: boolean,
+  aisClass: string | undefined,
+  sentences: string[]
+}
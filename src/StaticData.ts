@@ -0,0 +1,204 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as _ from 'lodash';
+
+const SHIPNAME_LENGTH: number = 20;
+const CALLSIGN_LENGTH: number = 7;
+const DESTINATION_LENGTH: number = 20;
+const MAX_IMO: number = 999999999;
+const MAX_BOW_STERN: number = 511;
+const MAX_PORT_STARBOARD: number = 63;
+const MAX_DRAUGHT: number = 25.5;
+const ETA_NOT_AVAILABLE = { month: 0, day: 0, hour: 24, minute: 60 };
+
+/**
+ * Static and voyage related data for a vessel assembled from the
+ * vessel's Signal K data model in a form suitable for encoding into
+ * AIS message types 5 and 24.
+ *
+ * Every field records the Signal K path (or paths) from which its
+ * value was derived, or undefined if no data was available and the
+ * field holds the AIS 'not available' value.
+ */
+export class StaticData {
+
+  public shipname: StaticField<string> = { value: '', source: undefined };
+  public callsign: StaticField<string> = { value: '', source: undefined };
+  public imo: StaticField<number> = { value: 0, source: undefined };
+  public cargo: StaticField<number> = { value: 0, source: undefined };
+  public destination: StaticField<string> = { value: '', source: undefined };
+  public dimA: StaticField<number> = { value: 0, source: undefined };
+  public dimB: StaticField<number> = { value: 0, source: undefined };
+  public dimC: StaticField<number> = { value: 0, source: undefined };
+  public dimD: StaticField<number> = { value: 0, source: undefined };
+  public draught: StaticField<number> = { value: 0, source: undefined };
+  public etaMo: StaticField<number> = { value: ETA_NOT_AVAILABLE.month, source: undefined };
+  public etaDay: StaticField<number> = { value: ETA_NOT_AVAILABLE.day, source: undefined };
+  public etaHr: StaticField<number> = { value: ETA_NOT_AVAILABLE.hour, source: undefined };
+  public etaMin: StaticField<number> = { value: ETA_NOT_AVAILABLE.minute, source: undefined };
+
+  constructor(vessel: any) {
+    var value: any;
+
+    if ((value = getValue(vessel, 'name')) !== undefined) {
+      this.shipname = { value: toAisString(value, SHIPNAME_LENGTH), source: 'name' };
+    }
+
+    if ((value = getValue(vessel, 'communication.callsignVhf')) !== undefined) {
+      this.callsign = { value: toAisString(value, CALLSIGN_LENGTH), source: 'communication.callsignVhf' };
+    }
+
+    if ((value = getValue(vessel, 'registrations.imo')) !== undefined) {
+      let imo: number = parseInt(('' + value).replace(/^\s*IMO\s*/i, ''));
+      if ((!isNaN(imo)) && (imo > 0) && (imo <= MAX_IMO)) this.imo = { value: imo, source: 'registrations.imo' };
+    }
+
+    if ((value = getValue(vessel, 'design.aisShipType')) !== undefined) {
+      let cargo: number = parseInt(_.get(value, 'id', value));
+      if ((!isNaN(cargo)) && (cargo >= 0) && (cargo <= 255)) this.cargo = { value: cargo, source: 'design.aisShipType' };
+    }
+
+    if ((value = getValue(vessel, 'navigation.destination.commonName')) !== undefined) {
+      this.destination = { value: toAisString(value, DESTINATION_LENGTH), source: 'navigation.destination.commonName' };
+    }
+
+    if ((value = getValue(vessel, 'design.draft')) !== undefined) {
+      let draught: number = _.get(value, 'maximum', _.get(value, 'current', undefined));
+      if ((typeof draught === 'number') && (draught > 0)) this.draught = { value: Math.round(clamp(draught, 0, MAX_DRAUGHT) * 10) / 10, source: 'design.draft' };
+    }
+
+    this.setDimensions(vessel);
+    this.setEta(vessel);
+  }
+
+  /**
+   * Get the properties required by AisEncode for a static data report.
+   *
+   * @returns - object containing AisEncodeOptions static properties.
+   */
+  getAisProperties(): any {
+    return({
+      shipname: this.shipname.value,
+      callsign: this.callsign.value,
+      imo: this.imo.value,
+      cargo: this.cargo.value,
+      destination: this.destination.value,
+      dimA: this.dimA.value,
+      dimB: this.dimB.value,
+      dimC: this.dimC.value,
+      dimD: this.dimD.value,
+      draught: this.draught.value,
+      etaMo: this.etaMo.value,
+      etaDay: this.etaDay.value,
+      etaHr: this.etaHr.value,
+      etaMin: this.etaMin.value
+    });
+  }
+
+  /**
+   * Compute AIS reference point dimensions from the vessel's length
+   * and beam and the position of the antenna which supplies the
+   * vessel's position.
+   *
+   * The GPS antenna is preferred as the reference point and the AIS
+   * antenna used only if no GPS offsets are available. Both offsets
+   * are always taken from the same sensor. If no offsets are known
+   * but dimensions are, then the AIS convention of placing the
+   * reference point at the bow on the port side is used.
+   *
+   * @param vessel - Signal K vessel object.
+   */
+  private setDimensions(vessel: any) {
+    var length: number | undefined = _.get(getValue(vessel, 'design.length'), 'overall', undefined);
+    var beam: number | undefined = getValue(vessel, 'design.beam');
+    var sensor: string | undefined = [ 'sensors.gps', 'sensors.ais' ].find((s) => (getValue(vessel, `${s}.fromBow`) !== undefined));
+    var fromBow: number = (sensor)?getValue(vessel, `${sensor}.fromBow`):0;
+    var fromCenter: number = (sensor)?(getValue(vessel, `${sensor}.fromCenter`) || 0):0;
+
+    if (typeof length === 'number') {
+      if (sensor) {
+        this.dimA = { value: Math.round(clamp(fromBow, 0, MAX_BOW_STERN)), source: `${sensor}.fromBow` };
+        this.dimB = { value: Math.round(clamp(length - fromBow, 0, MAX_BOW_STERN)), source: `design.length.overall - ${sensor}.fromBow` };
+      } else {
+        this.dimB = { value: Math.round(clamp(length, 0, MAX_BOW_STERN)), source: 'design.length.overall' };
+      }
+    }
+
+    if (typeof beam === 'number') {
+      if (sensor) {
+        this.dimC = { value: Math.round(clamp((beam / 2) + fromCenter, 0, MAX_PORT_STARBOARD)), source: `design.beam / 2 + ${sensor}.fromCenter` };
+        this.dimD = { value: Math.round(clamp((beam / 2) - fromCenter, 0, MAX_PORT_STARBOARD)), source: `design.beam / 2 - ${sensor}.fromCenter` };
+      } else {
+        this.dimD = { value: Math.round(clamp(beam, 0, MAX_PORT_STARBOARD)), source: 'design.beam' };
+      }
+    }
+  }
+
+  /**
+   * Decompose the vessel's estimated time of arrival into the UTC
+   * month, day, hour and minute fields used by AIS.
+   *
+   * @param vessel - Signal K vessel object.
+   */
+  private setEta(vessel: any) {
+    var source: string | undefined = [ 'navigation.destination.eta', 'navigation.courseGreatCircle.nextPoint.estimatedTimeOfArrival' ].find((p) => (getValue(vessel, p) !== undefined));
+    var eta: Date;
+
+    if (source) {
+      eta = new Date(getValue(vessel, source));
+      if (!isNaN(eta.getTime())) {
+        this.etaMo = { value: eta.getUTCMonth() + 1, source: source };
+        this.etaDay = { value: eta.getUTCDate(), source: source };
+        this.etaHr = { value: eta.getUTCHours(), source: source };
+        this.etaMin = { value: eta.getUTCMinutes(), source: source };
+      }
+    }
+  }
+
+}
+
+/**
+ * Get the value of a Signal K property which may be either a leaf
+ * value or a value object.
+ *
+ * @param vessel - Signal K vessel object.
+ * @param path - path of the required property.
+ * @returns - the property value or undefined if no value is available.
+ */
+function getValue(vessel: any, path: string): any {
+  var value: any = _.get(vessel, path, undefined);
+  if ((value !== null) && (typeof value === 'object') && (value.value !== undefined)) value = value.value;
+  return(((value === null) || (value === ''))?undefined:value);
+}
+
+/**
+ * Make a string safe for the AIS six-bit character set by converting
+ * it to upper case, replacing unsupported characters with spaces and
+ * truncating to a maximum length.
+ */
+export function toAisString(value: any, length: number): string {
+  return(('' + value).toUpperCase().replace(/[^\x20-\x3F\x41-\x5F]/g, ' ').trim().slice(0, length));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return(Math.min(Math.max(value, min), max));
+}
+
+export interface StaticField<T> {
+  value: T,
+  source: string | undefined
+}
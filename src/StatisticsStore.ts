@@ -0,0 +1,215 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as _ from 'lodash';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { STATISTICS_BUCKETS, makeReportStatistics } from './Endpoint';
+import type { Endpoint, ReportCounts, ReportStatistics, Statistics } from './Endpoint';
+import type { BudgetUsage } from './Budget';
+
+const HOURLY_RETENTION: number = 45 * 24 * 3600000;
+const DAILY_RETENTION: number = 400 * 24 * 3600000;
+const RESOLUTIONS: string[] = [ 'hour', 'day' ];
+const REPORT_TYPES: string[] = [ 'position', 'static', 'relayed' ];
+
+/**
+ * Persistent store of endpoint statistics.
+ *
+ * For each endpoint the store holds the endpoint's running totals and
+ * time series of synthesized (position and static) and relayed report
+ * counts and bytes transmitted bucketed by UTC
+ * hour and UTC day. Hourly buckets are kept for 45 days and daily
+ * buckets for 400 days.
+ *
+ * The store is saved as a JSON file which is replaced atomically.
+ */
+export class StatisticsStore {
+
+  private filename: string;
+  private endpoints: { [name: string]: EndpointHistory } = {};
+
+  /**
+   * @param filename - path of the file in which statistics are kept.
+   */
+  constructor(filename: string) {
+    this.filename = filename;
+  }
+
+  /**
+   * Load previously saved statistics. A missing file yields an empty
+   * store; an unreadable file causes an exception.
+   */
+  load() {
+    if (existsSync(this.filename)) this.endpoints = JSON.parse(readFileSync(this.filename, 'utf8')).endpoints || {};
+  }
+
+  /**
+   * Save statistics, discarding buckets which have passed their
+   * retention period.
+   *
+   * @param now - current time in milliseconds.
+   */
+  save(now: number) {
+    Object.values(this.endpoints).forEach((history) => {
+      prune(history.hourly, now - HOURLY_RETENTION);
+      prune(history.daily, now - DAILY_RETENTION);
+    });
+    writeFileSync(`${this.filename}.tmp`, JSON.stringify({ saved: (new Date(now)).toISOString(), endpoints: this.endpoints }));
+    renameSync(`${this.filename}.tmp`, this.filename);
+  }
+
+  /**
+   * Associate an endpoint with the store. If statistics have been
+   * saved for an endpoint of the same name they are merged into the
+   * endpoint's fresh statistics; thereafter the store tracks the
+   * endpoint's statistics object.
+   *
+   * @param endpoint - Endpoint to be tracked.
+   */
+  attach(endpoint: Endpoint) {
+    var history: EndpointHistory | undefined = this.endpoints[endpoint.name];
+
+    if (history) {
+      history.statistics = _.merge(endpoint.statistics, history.statistics);
+    } else {
+      this.endpoints[endpoint.name] = { statistics: endpoint.statistics, hourly: {}, daily: {} };
+    }
+  }
+
+  /**
+   * Add the outcome of a report to the endpoint's hourly and daily
+   * buckets.
+   *
+   * @param name - endpoint name.
+   * @param reportType - 'position', 'static' or 'relayed'.
+   * @param update - ReportStatistics for the report.
+   * @param now - time of the report in milliseconds.
+   */
+  record(name: string, reportType: string, update: ReportStatistics, now: number) {
+    var history: EndpointHistory | undefined = this.endpoints[name];
+    var key: string = (new Date(now)).toISOString();
+
+    if ((history) && (REPORT_TYPES.includes(reportType))) {
+      addTo(getBucket(history.hourly, key.slice(0, 13)), <'position' | 'static' | 'relayed'>reportType, update);
+      addTo(getBucket(history.daily, key.slice(0, 10)), <'position' | 'static' | 'relayed'>reportType, update);
+    }
+  }
+
+  /**
+   * Get the buckets recorded for an endpoint over a period.
+   *
+   * @param name - endpoint name.
+   * @param resolution - 'hour' or 'day'.
+   * @param from - start of period in milliseconds.
+   * @param to - end of period in milliseconds.
+   * @returns - array of HistoryEntry in time order, or undefined if
+   * the store holds nothing for the endpoint.
+   */
+  getSeries(name: string, resolution: string, from: number, to: number): HistoryEntry[] | undefined {
+    var history: EndpointHistory | undefined = this.endpoints[name];
+    var buckets: { [key: string]: Bucket };
+    var length: number = (resolution == 'day')?(24 * 3600000):3600000;
+
+    if (!RESOLUTIONS.includes(resolution)) throw new Error(`invalid resolution (${resolution})`);
+    if (!history) return(undefined);
+    buckets = (resolution == 'day')?history.daily:history.hourly;
+    return(Object.keys(buckets).sort()
+      .map((key) => ({ start: toTime(key), bucket: buckets[key] }))
+      .filter((entry) => (((entry.start + length) > from) && (entry.start <= to)))
+      .map((entry) => Object.assign({ start: (new Date(entry.start)).toISOString() }, entry.bucket))
+    );
+  }
+
+  /**
+   * Get the number of bytes transmitted to an endpoint during the
+   * current UTC day and the current UTC month.
+   *
+   * @param name - endpoint name.
+   * @param now - current time in milliseconds.
+   * @returns - BudgetUsage for the endpoint.
+   */
+  getUsage(name: string, now: number): BudgetUsage {
+    var history: EndpointHistory | undefined = this.endpoints[name];
+    var key: string = (new Date(now)).toISOString();
+    var daily: { [key: string]: Bucket } = (history)?history.daily:{};
+
+    return({
+      day: (daily[key.slice(0, 10)])?getBytes(daily[key.slice(0, 10)]):0,
+      month: Object.keys(daily).filter((day) => day.startsWith(key.slice(0, 7))).reduce((a, day) => (a + getBytes(daily[day])), 0)
+    });
+  }
+
+  /**
+   * Get the names of all endpoints for which statistics are held.
+   */
+  getNames(): string[] {
+    return(Object.keys(this.endpoints));
+  }
+
+}
+
+function getBucket(buckets: { [key: string]: Bucket }, key: string): Bucket {
+  if (!buckets[key]) buckets[key] = { position: makeReportStatistics(), static: makeReportStatistics(), relayed: makeReportStatistics() };
+  return(buckets[key]);
+}
+
+/**
+ * Add a report to a bucket. Buckets saved by earlier versions of the
+ * plugin may lack some of the counts, which are created as required.
+ */
+function addTo(bucket: Bucket, reportType: 'position' | 'static' | 'relayed', update: ReportStatistics) {
+  if (!bucket[reportType]) bucket[reportType] = makeReportStatistics();
+  STATISTICS_BUCKETS.forEach((name) => {
+    let counts: ReportCounts = bucket[reportType][name] = Object.assign({ reports: 0, bytes: 0, suppressed: 0, errors: 0 }, bucket[reportType][name]);
+
+    counts.reports += update[name].reports;
+    counts.bytes += update[name].bytes;
+    counts.suppressed += update[name].suppressed;
+    counts.errors += update[name].errors;
+  });
+}
+
+function getBytes(bucket: Bucket): number {
+  return([ bucket.position, bucket.static, bucket.relayed ].reduce((a, statistics) => (a + ((statistics)?STATISTICS_BUCKETS.reduce((b, name) => (b + ((statistics[name])?statistics[name].bytes:0)), 0):0)), 0));
+}
+
+function prune(buckets: { [key: string]: Bucket }, before: number) {
+  Object.keys(buckets).forEach((key) => { if (toTime(key) < before) delete buckets[key]; });
+}
+
+/**
+ * Convert a bucket key ('YYYY-MM-DDTHH' or 'YYYY-MM-DD') to the UTC
+ * time in milliseconds at which the bucket starts.
+ */
+function toTime(key: string): number {
+  return(Date.parse((key.length == 10)?`${key}T00:00:00Z`:`${key}:00:00Z`));
+}
+
+interface Bucket {
+  position: ReportStatistics,
+  static: ReportStatistics,
+  relayed: ReportStatistics
+}
+
+interface EndpointHistory {
+  statistics: Statistics,
+  hourly: { [key: string]: Bucket },
+  daily: { [key: string]: Bucket }
+}
+
+export interface HistoryEntry extends Bucket {
+  start: string
+}
@@ -0,0 +1,61 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Log of the most recent reports delivered to an endpoint, kept in
+ * memory so that the traffic to the endpoint can be inspected. Once
+ * the log is full each new entry displaces the oldest.
+ */
+export class TrafficLog {
+
+  private size: number;
+  private entries: TrafficEntry[] = [];
+
+  /**
+   * @param size - maximum number of entries held.
+   */
+  constructor(size: number) {
+    this.size = size;
+  }
+
+  /**
+   * Add a delivered report to the log.
+   *
+   * @param entry - TrafficEntry describing the report.
+   */
+  record(entry: TrafficEntry) {
+    this.entries.push(entry);
+    if (this.entries.length > this.size) this.entries.splice(0, this.entries.length - this.size);
+  }
+
+  /**
+   * Get the most recent entries in the log.
+   *
+   * @param limit - maximum number of entries returned.
+   * @returns - array of TrafficEntry, oldest first.
+   */
+  get(limit: number = this.size): TrafficEntry[] {
+    return(this.entries.slice(-limit));
+  }
+
+}
+
+export interface TrafficEntry {
+  time: string,
+  type: string,
+  mmsi: string,
+  lines: string[]
+}
@@ -0,0 +1,733 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { lookup } from 'dns';
+import { Socket as UdpSocket, createSocket } from 'dgram';
+import { Socket as NetSocket, createConnection, isIP } from 'net';
+import { connect as tlsConnect, ConnectionOptions } from 'tls';
+
+const UDP_RETRY_INTERVAL: number = 30000;
+const UDP_CONFIRMATION_DELAY: number = 2000;
+
+/**
+ * Abstraction of the mechanism used to deliver report messages to an
+ * endpoint.
+ */
+export interface Transport {
+  protocol: string,
+  state: TransportState,
+  delivery: DeliveryRecord,
+
+  send: (msg: string, onError?: (e: any) => void) => number,
+  isAvailable: () => boolean,
+  close: () => void,
+  getStatus: () => TransportStatus
+}
+
+/**
+ * Record of the outcome of a transport's attempts to deliver messages.
+ *
+ * Errors are counted until a delivery succeeds. A datagram sent on a
+ * connected UDP socket which is refused by the endpoint's host is
+ * reported by an ICMP port unreachable error shortly after the send
+ * itself has succeeded, so such sends are recorded as provisional and
+ * only count as successful if no port unreachable error arrives within
+ * a short confirmation delay.
+ */
+export class DeliveryRecord {
+
+  private started: number = Date.now();
+  private lastAttempt: number | undefined = undefined;
+  private lastSuccess: number | undefined = undefined;
+  private lastError: { time: number, message: string } | undefined = undefined;
+  private consecutiveErrors: number = 0;
+  private unreachable: number = 0;
+  private provisional: { first: number, last: number } | undefined = undefined;
+
+  /**
+   * Record a successful send.
+   *
+   * @param provisional - true if the send may yet be refused.
+   * @param now - current time in milliseconds.
+   */
+  success(provisional: boolean = false, now: number = Date.now()) {
+    this.lastAttempt = now;
+    if (provisional) {
+      this.provisional = { first: (this.provisional)?this.provisional.first:now, last: now };
+    } else {
+      this.lastSuccess = now;
+      this.consecutiveErrors = 0;
+    }
+  }
+
+  /**
+   * Record a failed send or a socket error. A port unreachable error
+   * cancels any provisional successes.
+   *
+   * @param e - error reported by the socket.
+   * @param now - current time in milliseconds.
+   */
+  error(e: any, now: number = Date.now()) {
+    this.confirm(now);
+    this.lastAttempt = now;
+    this.lastError = { time: now, message: e.message };
+    this.consecutiveErrors++;
+    if (e.code == 'ECONNREFUSED') {
+      this.unreachable++;
+      this.provisional = undefined;
+    }
+  }
+
+  /**
+   * Get the delivery record, first confirming any provisional
+   * successes which have not been refused.
+   *
+   * @param now - current time in milliseconds.
+   * @returns - DeliveryStatus.
+   */
+  getStatus(now: number = Date.now()): DeliveryStatus {
+    this.confirm(now);
+    return({
+      started: this.started,
+      lastAttempt: this.lastAttempt,
+      lastSuccess: this.lastSuccess,
+      lastError: this.lastError,
+      consecutiveErrors: this.consecutiveErrors,
+      unreachable: this.unreachable
+    });
+  }
+
+  private confirm(now: number) {
+    if ((this.provisional) && ((now - this.provisional.first) >= UDP_CONFIRMATION_DELAY)) {
+      this.lastSuccess = this.provisional.last;
+      this.consecutiveErrors = 0;
+      this.provisional = undefined;
+    }
+  }
+
+}
+
+/**
+ * The UDP sockets used by UDP transports.
+ *
+ * Broadcast and multicast endpoints share a socket, opened when first
+ * required, for each combination of address family and socket options,
+ * so endpoints which need these options do not change the behaviour of
+ * other endpoints. Unicast endpoints are each given a socket of their
+ * own which is connected to the endpoint so that ICMP port unreachable
+ * errors are reported. Sockets with options are bound to the
+ * configured interface (or to any address) before the options are
+ * applied; a send made while a socket is binding is queued by the
+ * socket.
+ */
+export class UdpSocketPool {
+
+  private sockets: Map<string, UdpSocket> = new Map();
+  private connected: Set<UdpSocket> = new Set();
+  private log: (msg: string) => void;
+
+  constructor(log: (msg: string) => void) {
+    this.log = log;
+  }
+
+  /**
+   * Get the socket for an address family and set of options, opening
+   * it if necessary.
+   *
+   * @param family - 4 or 6.
+   * @param options - UdpTransportOptions of the endpoint.
+   * @returns - the socket.
+   */
+  get(family: number, options: UdpTransportOptions): UdpSocket {
+    var key: string = `${family}:${options.interface || ''}:${(options.broadcast)?'b':''}:${(options.multicast)?`${options.multicast.ttl}:${options.multicast.loopback}`:''}`;
+    var socket: UdpSocket | undefined = this.sockets.get(key);
+
+    if (!socket) {
+      socket = this.open(family, options, (e: any) => this.log(`udp${family} socket${(options.interface)?` on ${options.interface}`:''}: ${e.message}`));
+      this.sockets.set(key, socket);
+    }
+    return(socket);
+  }
+
+  /**
+   * Open a socket connected to a unicast address.
+   *
+   * @param family - 4 or 6.
+   * @param options - UdpTransportOptions of the endpoint.
+   * @param address - IP address to connect to.
+   * @param port - port to connect to.
+   * @param onError - function called with socket errors, including
+   * ICMP port unreachable errors.
+   * @param onConnect - function called once the socket is connected.
+   * @returns - the socket.
+   */
+  connect(family: number, options: UdpTransportOptions, address: string, port: number, onError: (e: any) => void, onConnect: () => void): UdpSocket {
+    var socket: UdpSocket = this.open(family, options, onError);
+
+    socket.connect(port, address, onConnect);
+    this.connected.add(socket);
+    return(socket);
+  }
+
+  /**
+   * Close a socket opened by connect().
+   */
+  release(socket: UdpSocket) {
+    if (this.connected.delete(socket)) socket.close();
+  }
+
+  close() {
+    this.sockets.forEach((socket) => socket.close());
+    this.sockets.clear();
+    this.connected.forEach((socket) => socket.close());
+    this.connected.clear();
+  }
+
+  private open(family: number, options: UdpTransportOptions, onError: (e: any) => void): UdpSocket {
+    var socket: UdpSocket = createSocket((family == 6)?'udp6':'udp4');
+
+    socket.on('error', onError);
+    if ((options.interface) || (options.broadcast) || (options.multicast)) {
+      socket.bind({ address: options.interface, port: 0 }, () => {
+        if (options.broadcast) socket.setBroadcast(true);
+        if (options.multicast) {
+          socket.setMulticastTTL(options.multicast.ttl);
+          socket.setMulticastLoopback(options.multicast.loopback);
+          if (options.interface) socket.setMulticastInterface(options.interface);
+        }
+      });
+    }
+    return(socket);
+  }
+
+}
+
+/**
+ * Connectionless UDP transport which sends each message as a single
+ * datagram. Broadcast and multicast datagrams are sent using a socket
+ * shared with other endpoints; unicast datagrams are sent using a
+ * socket connected to the endpoint.
+ *
+ * The endpoint may be given as an IPv4 or IPv6 address or as a
+ * hostname. A hostname is resolved when the transport is created and
+ * again at the configured resolve interval, so that a service whose
+ * address changes continues to be reached; the transport is not ready
+ * until the first resolution succeeds.
+ *
+ * If an MTU is configured, messages sent in the same turn of the event
+ * loop are packed into as few datagrams as the MTU allows.
+ *
+ * Send errors (and ICMP port unreachable errors on a connected socket)
+ * are reported asynchronously. After an error the transport is
+ * considered unavailable until a send succeeds or a retry interval has
+ * passed.
+ */
+export class UdpTransport implements Transport {
+
+  public protocol: string = 'udp';
+  public state: TransportState = 'resolving';
+  public delivery: DeliveryRecord = new DeliveryRecord();
+
+  private sockets: UdpSocketPool;
+  private socket: UdpSocket | undefined = undefined;
+  private connected: boolean = false;
+  private host: string;
+  private address: string | undefined = undefined;
+  private port: number;
+  private options: UdpTransportOptions;
+  private mtu: number | undefined;
+  private log: (msg: string) => void;
+  private resolveTimer: NodeJS.Timeout | undefined = undefined;
+  private lastError: number | undefined = undefined;
+  private pending: string = '';
+  private pendingErrorHandlers: ((e: any) => void)[] = [];
+
+  constructor(sockets: UdpSocketPool, host: string, port: number, options: UdpTransportOptions, mtu: number | undefined, log: (msg: string) => void) {
+    this.sockets = sockets;
+    this.host = host;
+    this.port = port;
+    this.options = options;
+    this.mtu = mtu;
+    this.log = log;
+    this.resolve();
+    if (!isIP(host)) this.resolveTimer = setInterval(() => this.resolve(), options.resolveInterval * 1000);
+  }
+
+  send(msg: string, onError?: (e: any) => void): number {
+    if (this.state != 'ready') return(0);
+    if (!this.mtu) {
+      this.transmit(msg, (onError)?[ onError ]:[]);
+    } else {
+      if ((this.pending.length > 0) && ((this.pending.length + msg.length) > this.mtu)) this.flush();
+      if (this.pending.length == 0) setImmediate(() => this.flush());
+      this.pending += msg;
+      if (onError) this.pendingErrorHandlers.push(onError);
+    }
+    return(msg.length);
+  }
+
+  isAvailable(): boolean {
+    return((this.state == 'ready') && ((this.lastError === undefined) || ((Date.now() - this.lastError) > UDP_RETRY_INTERVAL)));
+  }
+
+  close() {
+    this.flush();
+    this.state = 'closed';
+    if (this.resolveTimer) clearInterval(this.resolveTimer);
+    if (this.socket) this.sockets.release(this.socket);
+  }
+
+  getStatus(): TransportStatus {
+    return({ protocol: this.protocol, state: this.state, address: this.address, connected: undefined, reconnects: 0, bytesBuffered: 0, messagesDropped: 0 });
+  }
+
+  /**
+   * Resolve the endpoint's host to an address and select the socket for
+   * the address's family. A failed resolution keeps any previously
+   * resolved address.
+   */
+  private resolve() {
+    var family: number = isIP(this.host);
+
+    if (family != 0) {
+      this.useAddress(this.host, family);
+    } else {
+      lookup(this.host, (e: any, address: string, family: number) => {
+        if (this.state == 'closed') return;
+        if (e) {
+          this.log(`cannot resolve '${this.host}' (${e.message})`);
+        } else {
+          if (address != this.address) this.log(`'${this.host}' resolved to ${address}`);
+          this.useAddress(address, family);
+        }
+      });
+    }
+  }
+
+  /**
+   * Start sending to a newly resolved address. Broadcast and multicast
+   * addresses use a shared socket; a unicast address is given a socket
+   * connected to it, replacing any socket connected to a previous
+   * address.
+   */
+  private useAddress(address: string, family: number) {
+    var previous: UdpSocket | undefined = this.socket;
+
+    if ((previous) && (address == this.address)) return;
+    this.address = address;
+    this.connected = ((!this.options.broadcast) && (!isMulticast(address)));
+    if (this.connected) {
+      this.socket = this.sockets.connect(family, this.options, address, this.port, (e: any) => this.onSocketError(e), () => { if (this.state == 'resolving') this.state = 'ready'; });
+    } else {
+      this.socket = this.sockets.get(family, this.options);
+      if (this.state == 'resolving') this.state = 'ready';
+    }
+    if (previous) this.sockets.release(previous);
+  }
+
+  private onSocketError(e: any) {
+    this.lastError = Date.now();
+    this.delivery.error(e);
+    this.log(`${this.address}:${this.port}: ${e.message}`);
+  }
+
+  /**
+   * Send any messages waiting to be packed into a datagram.
+   */
+  private flush() {
+    if ((this.pending.length == 0) || (this.state != 'ready')) return;
+    this.transmit(this.pending, this.pendingErrorHandlers);
+    this.pending = '';
+    this.pendingErrorHandlers = [];
+  }
+
+  private transmit(datagram: string, errorHandlers: ((e: any) => void)[]) {
+    var callback = (e: any) => {
+      if (e) {
+        this.lastError = Date.now();
+        this.delivery.error(e);
+        errorHandlers.forEach((handler) => handler(e));
+      } else {
+        this.lastError = undefined;
+        this.delivery.success(this.connected);
+      }
+    };
+
+    if (this.connected) {
+      (<UdpSocket>this.socket).send(datagram, callback);
+    } else {
+      (<UdpSocket>this.socket).send(datagram, 0, datagram.length, this.port, this.address, callback);
+    }
+  }
+
+}
+
+/**
+ * Read a certificate or key file named by a TLS option.
+ *
+ * @param name - name of the option ('ca', 'cert' or 'key').
+ * @param path - path of the file.
+ * @returns - content of the file.
+ * @throws - Error naming the option and path if the file cannot be
+ * read.
+ */
+function readTlsFile(name: string, path: string): Buffer {
+  try {
+    return(readFileSync(path));
+  } catch(e: any) {
+    throw new Error(`cannot read 'tls.${name}' file '${path}' (${e.code || e.message})`);
+  }
+}
+
+/**
+ * Check whether an IP address is an IPv4 or IPv6 multicast address.
+ */
+function isMulticast(address: string): boolean {
+  return((isIP(address) == 6)?/^ff/i.test(address):((parseInt(address.split('.')[0]) & 0xF0) == 0xE0));
+}
+
+/**
+ * Connection oriented transport which maintains a persistent TCP or
+ * TLS connection to an endpoint. A hostname is resolved afresh each
+ * time the connection is opened.
+ *
+ * A lost connection is re-established after a delay which doubles on
+ * each consecutive failure up to a configured maximum. Messages sent
+ * while the connection is down are dropped. When the socket signals
+ * backpressure messages are held in a bounded buffer until the socket
+ * drains, after which further messages are dropped. A message which
+ * fails to be written, or which is still buffered when the connection
+ * is lost, is reported to the error handler given when it was sent.
+ */
+export class TcpTransport implements Transport {
+
+  public protocol: string;
+  public state: TransportState = 'disconnected';
+  public delivery: DeliveryRecord = new DeliveryRecord();
+
+  private address: string;
+  private port: number;
+  private options: TcpTransportOptions;
+  private log: (msg: string) => void;
+  private tlsOptions: ConnectionOptions | undefined;
+  private socket: NetSocket | undefined = undefined;
+  private reconnectTimer: NodeJS.Timeout | undefined = undefined;
+  private reconnectDelay: number;
+  private connected: number | undefined = undefined;
+  private reconnects: number = 0;
+  private draining: boolean = false;
+  private buffer: BufferedMessage[] = [];
+  private bytesBuffered: number = 0;
+  private messagesDropped: number = 0;
+
+  constructor(protocol: string, address: string, port: number, options: TcpTransportOptions, log: (msg: string) => void) {
+    this.protocol = protocol;
+    this.address = address;
+    this.port = port;
+    this.options = options;
+    this.log = log;
+    this.reconnectDelay = options.reconnectMinimumDelay;
+    this.tlsOptions = (protocol == 'tls')?this.makeTlsOptions():undefined;
+    this.connect();
+  }
+
+  send(msg: string, onError?: (e: any) => void): number {
+    if (this.state != 'connected') {
+      this.messagesDropped++;
+      this.delivery.error(new Error(`connection ${this.state}`));
+      return(0);
+    }
+    if (this.draining) {
+      if ((this.bytesBuffered + msg.length) > this.options.maxBufferedBytes) {
+        this.messagesDropped++;
+        this.delivery.error(new Error('connection congested'));
+        return(0);
+      }
+      this.buffer.push({ msg: msg, onError: onError });
+      this.bytesBuffered += msg.length;
+      return(msg.length);
+    }
+    this.write(msg, onError);
+    return(msg.length);
+  }
+
+  isAvailable(): boolean {
+    return(this.state == 'connected');
+  }
+
+  close() {
+    this.state = 'closed';
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.socket) this.socket.destroy();
+    this.socket = undefined;
+  }
+
+  getStatus(): TransportStatus {
+    return({
+      protocol: this.protocol,
+      state: this.state,
+      address: ((this.socket) && (this.state == 'connected'))?this.socket.remoteAddress:undefined,
+      connected: (this.connected)?(new Date(this.connected)).toISOString():undefined,
+      reconnects: this.reconnects,
+      bytesBuffered: this.bytesBuffered,
+      messagesDropped: this.messagesDropped
+    });
+  }
+
+  /**
+   * Open a connection to the endpoint and attach the event handlers
+   * which manage the connection lifecycle.
+   */
+  private connect() {
+    this.log(`connecting to ${this.protocol}://${this.address}:${this.port}`);
+    this.state = 'connecting';
+    this.socket = (this.protocol == 'tls')?tlsConnect(<ConnectionOptions>this.tlsOptions, () => this.onConnect()):createConnection({ host: this.address, port: this.port }, () => this.onConnect());
+    this.socket.setKeepAlive(true, this.options.keepAliveDelay);
+    this.socket.on('drain', () => this.onDrain());
+    this.socket.on('error', (e: any) => this.log(`${this.protocol}://${this.address}:${this.port}: ${e.message}`));
+    this.socket.on('close', () => this.onClose());
+  }
+
+  private onConnect() {
+    this.log(`connected to ${this.protocol}://${this.address}:${this.port}`);
+    this.state = 'connected';
+    this.connected = Date.now();
+    this.reconnectDelay = this.options.reconnectMinimumDelay;
+  }
+
+  private onDrain() {
+    this.draining = false;
+    while ((this.buffer.length > 0) && (!this.draining)) {
+      let message: BufferedMessage = <BufferedMessage>this.buffer.shift();
+      this.bytesBuffered -= message.msg.length;
+      this.write(message.msg, message.onError);
+    }
+  }
+
+  private write(msg: string, onError: ((e: any) => void) | undefined) {
+    var callback = (e: any) => {
+      if (e) {
+        this.delivery.error(e);
+        if (onError) onError(e);
+      } else {
+        this.delivery.success();
+      }
+    };
+
+    if (!(<NetSocket>this.socket).write(msg, callback)) this.draining = true;
+  }
+
+  private onClose() {
+    var dropped: BufferedMessage[] = this.buffer;
+
+    if (this.state == 'closed') return;
+    this.state = 'disconnected';
+    this.connected = undefined;
+    this.draining = false;
+    this.messagesDropped += dropped.length;
+    this.buffer = [];
+    this.bytesBuffered = 0;
+    dropped.forEach((message) => { if (message.onError) message.onError(new Error('connection closed')); });
+    this.log(`connection to ${this.protocol}://${this.address}:${this.port} closed (retrying in ${this.reconnectDelay / 1000}s)`);
+    this.reconnectTimer = setTimeout(() => { this.reconnects++; this.connect(); }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.options.reconnectMaximumDelay);
+  }
+
+  private makeTlsOptions(): ConnectionOptions {
+    var retval: ConnectionOptions = { host: this.address, port: this.port };
+    var tls: TlsOptions = this.options.tls || <TlsOptions>{};
+
+    if (tls.ca) retval.ca = readTlsFile('ca', tls.ca);
+    if (tls.cert) retval.cert = readTlsFile('cert', tls.cert);
+    if (tls.key) retval.key = readTlsFile('key', tls.key);
+    if (tls.passphrase) retval.passphrase = tls.passphrase;
+    if (tls.servername) retval.servername = tls.servername;
+    retval.rejectUnauthorized = (tls.rejectUnauthorized !== false);
+    return(retval);
+  }
+
+}
+
+/**
+ * Transport which appends report messages to a local log file rather
+ * than sending them over the network.
+ *
+ * When a message would take the file beyond its maximum size the file
+ * is renamed with the suffix '.1' (earlier files moving to '.2' and so
+ * on, with the oldest being discarded) and a new file is started. With
+ * 'maxFiles' set to zero the file is simply truncated.
+ */
+export class FileTransport implements Transport {
+
+  public protocol: string = 'file';
+  public state: TransportState = 'ready';
+  public delivery: DeliveryRecord = new DeliveryRecord();
+
+  private options: FileTransportOptions;
+  private log: (msg: string) => void;
+  private size: number = 0;
+
+  constructor(options: FileTransportOptions, log: (msg: string) => void) {
+    this.options = options;
+    this.log = log;
+    try {
+      mkdirSync(dirname(options.path), { recursive: true });
+      if (existsSync(options.path)) this.size = statSync(options.path).size;
+    } catch(e: any) {
+      this.log(`${options.path}: ${e.message}`);
+    }
+  }
+
+  send(msg: string): number {
+    var bytes: number = Buffer.byteLength(msg);
+
+    if (this.state != 'ready') return(0);
+    try {
+      if ((this.size > 0) && ((this.size + bytes) > this.options.maxSize)) this.rotate();
+      appendFileSync(this.options.path, msg);
+      this.size += bytes;
+      this.delivery.success();
+      return(msg.length);
+    } catch(e: any) {
+      this.delivery.error(e);
+      this.log(`${this.options.path}: ${e.message}`);
+      return(0);
+    }
+  }
+
+  isAvailable(): boolean {
+    return(this.state == 'ready');
+  }
+
+  close() {
+    this.state = 'closed';
+  }
+
+  getStatus(): TransportStatus {
+    return({ protocol: this.protocol, state: this.state, address: this.options.path, connected: undefined, reconnects: 0, bytesBuffered: 0, messagesDropped: 0 });
+  }
+
+  private rotate() {
+    if (this.options.maxFiles == 0) {
+      writeFileSync(this.options.path, '');
+    } else {
+      for (var i = this.options.maxFiles; i > 0; i--) {
+        let from: string = (i == 1)?this.options.path:`${this.options.path}.${i - 1}`;
+        if (existsSync(from)) renameSync(from, `${this.options.path}.${i}`);
+      }
+    }
+    this.log(`rotated ${this.options.path}`);
+    this.size = 0;
+  }
+
+}
+
+/**
+ * Transport used by an endpoint in dry-run mode. Report messages are
+ * accepted (and so counted in the endpoint's statistics) and logged,
+ * but are not delivered anywhere.
+ */
+export class DryRunTransport implements Transport {
+
+  public protocol: string;
+  public state: TransportState = 'ready';
+  public delivery: DeliveryRecord = new DeliveryRecord();
+
+  private log: (msg: string) => void;
+
+  constructor(protocol: string, log: (msg: string) => void) {
+    this.protocol = protocol;
+    this.log = log;
+  }
+
+  send(msg: string): number {
+    if (this.state != 'ready') return(0);
+    this.log(`dry run: ${msg.trim()}`);
+    this.delivery.success();
+    return(msg.length);
+  }
+
+  isAvailable(): boolean {
+    return(this.state == 'ready');
+  }
+
+  close() {
+    this.state = 'closed';
+  }
+
+  getStatus(): TransportStatus {
+    return({ protocol: this.protocol, state: this.state, address: undefined, connected: undefined, reconnects: 0, bytesBuffered: 0, messagesDropped: 0 });
+  }
+
+}
+
+export type TransportState = 'resolving' | 'ready' | 'connecting' | 'connected' | 'disconnected' | 'closed';
+
+export interface DeliveryStatus {
+  started: number,
+  lastAttempt: number | undefined,
+  lastSuccess: number | undefined,
+  lastError: { time: number, message: string } | undefined,
+  consecutiveErrors: number,
+  unreachable: number
+}
+
+export interface TransportStatus {
+  protocol: string,
+  state: TransportState,
+  address: string | undefined,
+  connected: string | undefined,
+  reconnects: number,
+  bytesBuffered: number,
+  messagesDropped: number
+}
+
+export interface UdpTransportOptions {
+  interface: string | undefined,
+  broadcast: boolean,
+  multicast: { ttl: number, loopback: boolean } | undefined,
+  resolveInterval: number
+}
+
+export interface FileTransportOptions {
+  path: string,
+  maxSize: number,
+  maxFiles: number
+}
+
+export interface TcpTransportOptions {
+  reconnectMinimumDelay: number,
+  reconnectMaximumDelay: number,
+  keepAliveDelay: number,
+  maxBufferedBytes: number,
+  tls: TlsOptions | undefined
+}
+
+export interface TlsOptions {
+  ca?: string,
+  cert?: string,
+  key?: string,
+  passphrase?: string,
+  servername?: string,
+  rejectUnauthorized?: boolean
+}
+
+interface BufferedMessage {
+  msg: string,
+  onError: ((e: any) => void) | undefined
+}
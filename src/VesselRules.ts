@@ -0,0 +1,153 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as _ from 'lodash';
+
+const ACTIONS: string[] = [ 'include', 'exclude' ];
+const AIS_CLASSES: string[] = [ 'A', 'B' ];
+
+/**
+ * Ordered list of rules which include or exclude vessels by MMSI,
+ * MMSI prefix, AIS ship type and AIS class.
+ *
+ * Each rule applies an 'include' or 'exclude' action to vessels which
+ * satisfy all of the rule's criteria. Rules are checked in order and
+ * the first matching rule decides a vessel's fate. A vessel which
+ * matches no rule is excluded if the rule set contains any 'include'
+ * rules and is otherwise included.
+ *
+ * The number of vessels matched by each rule during the most recent
+ * pass over a set of vessels is retained for reporting.
+ *
+ * Invalid rules cause an exception.
+ */
+export class VesselRuleSet {
+
+  private rules: VesselRule[];
+  private defaultInclude: boolean;
+
+  constructor(rules: any) {
+    if (!Array.isArray(rules)) throw new Error('invalid \'rules\' property (not an array)');
+    this.rules = rules.map((rule: any, index: number) => makeRule(rule, `rules[${index}]`));
+    this.defaultInclude = !this.rules.some((rule) => (rule.action == 'include'));
+  }
+
+  /**
+   * Reset the per-rule match counts at the start of a new pass.
+   */
+  reset() {
+    this.rules.forEach((rule) => { rule.matched = 0; });
+  }
+
+  /**
+   * Check whether a vessel should be reported.
+   *
+   * @param vessel - Signal K vessel object.
+   * @param count - false if the match should not be counted (for
+   * example because the check is not part of a pass over a set of
+   * vessels).
+   * @returns - true if the vessel is included by the rule set.
+   */
+  includes(vessel: any, count: boolean = true): boolean {
+    var mmsi: string = '' + vessel.mmsi;
+    var shipType: number | undefined = _.get(vessel, 'design.aisShipType.value.id', undefined);
+    var aisClass: string | undefined = _.get(vessel, 'sensors.ais.class.value', undefined);
+    var rule: VesselRule | undefined;
+
+    rule = this.rules.find((rule) => (
+      ((!rule.mmsi) || (rule.mmsi.includes(mmsi))) &&
+      ((!rule.mmsiPrefix) || (rule.mmsiPrefix.some((prefix) => mmsi.startsWith(prefix)))) &&
+      ((!rule.shipType) || ((shipType !== undefined) && (shipType >= rule.shipType.min) && (shipType <= rule.shipType.max))) &&
+      ((!rule.aisClass) || (rule.aisClass == aisClass))
+    ));
+    if (rule) {
+      if (count) rule.matched++;
+      return(rule.action == 'include');
+    }
+    return(this.defaultInclude);
+  }
+
+  /**
+   * Get the rules and the number of vessels each matched during the
+   * most recent pass.
+   *
+   * @returns - array of VesselRuleStatus.
+   */
+  getStatus(): VesselRuleStatus[] {
+    return(this.rules.map((rule) => ({ name: rule.name, action: rule.action, matched: rule.matched })));
+  }
+
+}
+
+/**
+ * Make a VesselRuleSet from a configuration property, returning
+ * undefined if the property is absent.
+ *
+ * @param rules - array of rule definitions or undefined.
+ * @returns - a VesselRuleSet or undefined.
+ */
+export function makeVesselRuleSet(rules: any): VesselRuleSet | undefined {
+  return((rules !== undefined)?new VesselRuleSet(rules):undefined);
+}
+
+function makeRule(rule: any, name: string): VesselRule {
+  var retval: VesselRule;
+
+  if ((!rule) || (typeof rule !== 'object')) throw new Error(`invalid '${name}' property (not an object)`);
+  if (!ACTIONS.includes(rule.action)) throw new Error(`invalid '${name}.action' property (${rule.action})`);
+  retval = { name: rule.name || name, action: rule.action, matched: 0 };
+
+  if (rule.mmsi !== undefined) {
+    if ((!Array.isArray(rule.mmsi)) || (!rule.mmsi.every((mmsi: any) => /^\d{9}$/.test('' + mmsi)))) throw new Error(`invalid '${name}.mmsi' property (must be an array of nine digit MMSIs)`);
+    retval.mmsi = rule.mmsi.map((mmsi: any) => ('' + mmsi));
+  }
+
+  if (rule.mmsiPrefix !== undefined) {
+    if ((!Array.isArray(rule.mmsiPrefix)) || (!rule.mmsiPrefix.every((prefix: any) => /^\d{1,9}$/.test('' + prefix)))) throw new Error(`invalid '${name}.mmsiPrefix' property (must be an array of digit strings)`);
+    retval.mmsiPrefix = rule.mmsiPrefix.map((prefix: any) => ('' + prefix));
+  }
+
+  if (rule.shipType !== undefined) {
+    let min: any = (typeof rule.shipType === 'number')?rule.shipType:rule.shipType.min;
+    let max: any = (typeof rule.shipType === 'number')?rule.shipType:rule.shipType.max;
+    if ((!Number.isInteger(min)) || (!Number.isInteger(max)) || (min < 0) || (max > 255) || (min > max)) throw new Error(`invalid '${name}.shipType' property (must be a ship type or a { min, max } range in 0..255)`);
+    retval.shipType = { min: min, max: max };
+  }
+
+  if (rule.aisClass !== undefined) {
+    if (!AIS_CLASSES.includes(rule.aisClass)) throw new Error(`invalid '${name}.aisClass' property (${rule.aisClass})`);
+    retval.aisClass = rule.aisClass;
+  }
+
+  if ((!retval.mmsi) && (!retval.mmsiPrefix) && (!retval.shipType) && (!retval.aisClass)) throw new Error(`invalid '${name}' property (no selection criteria)`);
+  return(retval);
+}
+
+export interface VesselRuleStatus {
+  name: string,
+  action: string,
+  matched: number
+}
+
+interface VesselRule {
+  name: string,
+  action: string,
+  mmsi?: string[],
+  mmsiPrefix?: string[],
+  shipType?: { min: number, max: number },
+  aisClass?: string,
+  matched: number
+}
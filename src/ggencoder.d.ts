@@ -2,7 +2,8 @@ declare module 'ggencoder' {
   export interface AisEncodeOptions {
     accuracy?: number,
     aistype?: number,
-    cargo?: string | undefined
+    callsign?: string | undefined,
+    cargo?: number | undefined,
     cog?: number | undefined,
     destination?: string | undefined,
     dimA?: number | undefined,
@@ -15,10 +16,11 @@ declare module 'ggencoder' {
     etaMin?: number | undefined,
     etaMo?: number | undefined,
     hdg?: number | undefined,
-    imo?: string | undefined,
+    imo?: number | undefined,
     lat?: number | undefined,
     lon?: number | undefined,
     mmsi: string,
+    navstatus?: number | undefined,
     own?: number | undefined,
     part?: number,
     repeat?: number,
@@ -32,4 +34,12 @@ declare module 'ggencoder' {
     constructor(options: AisEncodeOptions)
     nmea: string
   }
+
+  export class AisDecode {
+    constructor(input: string, session?: any)
+    valid: boolean
+    error: string
+    aistype: number
+    [field: string]: any
+  }
 }
\ No newline at end of file
@@ -15,50 +15,192 @@
  */
 
 import * as _ from 'lodash';
-import { Endpoint } from './Endpoint';
-import type { ReportStatistics } from './Endpoint';
+import { Endpoint, STATISTICS_BUCKETS, TARGET_CONTEXTS, makeReportStatistics } from './Endpoint';
+import type { ReportCounts, ReportStatistics, Statistics, StatisticsBucket, Vessel } from './Endpoint';
+import { FleetMember, makeFleet } from './Fleet';
+import { DryRunTransport, FileTransport, FileTransportOptions, Transport, TransportStatus, UdpSocketPool, UdpTransport, TcpTransport } from './Transport';
+import { StaticData } from './StaticData';
+import { MappingResult, mapAidToNavigation, mapAircraft, mapBaseStation, mapPosition, mapStatic } from './AisMapper';
+import { encodeAidToNavigationReport, encodeBaseStationReport, encodeExtendedClassBReport, encodeSarAircraftReport } from './AisEncoder';
+import type { ExtendedClassBOptions } from './AisEncoder';
+import type { GeoFilter, Position } from './GeoFilter';
+import type { VesselRuleSet, VesselRuleStatus } from './VesselRules';
+import { PositionHistory } from './Privacy';
+import { HistoryEntry, StatisticsStore } from './StatisticsStore';
+import { THROTTLE } from './Budget';
+import { OutboundQueue, QueuedReport, QueueStatus } from './OutboundQueue';
+import { AisAssembler, AisMessage } from './Relay';
+import type { RelayFilter } from './Relay';
+import type { ChangeFilter } from './ChangeFilter';
+import type { Profile, ProfileStatus } from './Profiles';
+import { DecodedMessage, decodeReport } from './AisDecoder';
+import { ConfigDiagnostic, ConfigValidation, validateConfiguration, validateEndpoint } from './ConfigValidator';
+import type { BudgetStatus, DataBudget } from './Budget';
+import type { HealthStatus } from './Health';
+import { OPENMETRICS_CONTENT_TYPE, OpenMetrics } from './Metrics';
+import type { TrafficEntry } from './Traffic';
 import { AisEncode, AisEncodeOptions } from 'ggencoder';
-import { Socket, createSocket } from 'dgram';
+import { isAbsolute, join, relative, resolve } from 'path';
+import { existsSync, renameSync, unlinkSync } from 'fs';
 import { PluginStatus } from 'signalk-libpluginstatus';
 
 const DEFAULT_MY_AIS_CLASS = 'B';
-const DEFAULT_ENDPOINT_OPTIONS: any = { POSITION_UPDATE_INTERVAL: 5, STATIC_DATA_UPDATE_INTERVAL: 15, EXPIRY_INTERVAL: 15 };
-const HEARTBEAT_INTERVAL: number = 60000;
+const DEFAULT_ENDPOINT_OPTIONS: any = { POSITION_UPDATE_INTERVAL: 5, STATIC_DATA_UPDATE_INTERVAL: 15, EXPIRY_INTERVAL: 15, MINIMUM_REPORT_INTERVAL: '10s', MAXIMUM_REPORT_INTERVAL: '15m', ADAPTIVE_SPEED_THRESHOLD: 2, ADAPTIVE_COURSE_THRESHOLD: 15, ADAPTIVE_HEADING_THRESHOLD: 15, RECONNECT_MINIMUM_DELAY: 1, RECONNECT_MAXIMUM_DELAY: 300, KEEPALIVE_DELAY: 60, MAX_BUFFERED_BYTES: 65536, QUEUE_MAX_BYTES: 1048576, QUEUE_MAX_AGE: '24h', UNCHANGED_KEEP_ALIVE: '1h', MULTICAST_TTL: 1, RESOLVE_INTERVAL: '10m', HEALTH_WARN_ERRORS: 3, HEALTH_ALERT_ERRORS: 10, HEALTH_SILENCE: '1h', FILE_MAX_SIZE: 1048576, FILE_MAX_FILES: 5, TRAFFIC_LOG_SIZE: 50 };
+const HEARTBEAT_INTERVAL: number = 1000;
+const ENDPOINT_STAGGER_INTERVAL: number = 2000;
+const REPLAY_BATCH_SIZE: number = 20;
+const EVENT_STATUS_INTERVAL: number = 5000;
+const STATISTICS_FILE: string = 'statistics.json';
+const STATISTICS_SAVE_INTERVAL: number = 600000;
+const ENDPOINT_ACTIONS: string[] = [ 'pause', 'resume' ];
+const REPORT_TYPES: string[] = [ 'position', 'static' ];
 
 const PLUGIN_ID: string = 'ais-reporter';
 const PLUGIN_NAME: string = 'pdjr-ais-reporter';
-const PLUGIN_DESCRIPTION: string = 'Report AIS data to remote UDP services.';
+const PLUGIN_DESCRIPTION: string = 'Report AIS data to remote UDP, TCP and TLS services.';
 const PLUGIN_SCHEMA: object = {
   "type": "object",
   "required": [ "endpoints" ],
+  "allOf": [ { "$ref": "#/definitions/options" } ],
   "properties": {
-    "$ref": "#/definitions/options",
     "myVessel": { "$ref": "#/definitions/vessel" },
-    "otherVessels": { "$ref": "#/definitions/vessel" },  
+    "otherVessels": { "$ref": "#/definitions/otherVessels" },  
+    "atons": { "title": "Report aids to navigation (type 21)", "$ref": "#/definitions/options" },
+    "aircraft": { "title": "Report SAR aircraft (type 9)", "$ref": "#/definitions/options" },
+    "basestations": { "title": "Report base stations (type 4)", "$ref": "#/definitions/options" },
+    "budget": { "$ref": "#/definitions/budget" },
+    "queue": { "$ref": "#/definitions/queue" },
+    "framing": { "$ref": "#/definitions/framing" },
+    "passthrough": { "$ref": "#/definitions/passthrough" },
+    "resolveInterval": { "$ref": "#/definitions/resolveInterval" },
+    "health": { "$ref": "#/definitions/health" },
+    "dryRun": { "$ref": "#/definitions/dryRun" },
+    "fleet": { "$ref": "#/definitions/fleet" },
     "endpoints": {
       "type": "array",
-      "title": "UDP endpoints to report to",
+      "title": "Endpoints to report to",
       "items": {
         "type": "object",
-        "required": ["ipaddress", "port"],
+        "allOf": [ { "$ref": "#/definitions/options" } ],
         "properties": {
           "name": {
             "title": "Endpoint name",
             "type": "string"
           },
-          "ipaddress": {
-            "title": "Endpoint IP address",
-            "type": "string",
-            "format": "ipv4"
+          "ipAddress": {
+            "title": "Endpoint IPv4 or IPv6 address (unicast, broadcast or multicast) or hostname (required except for protocol 'file')",
+            "type": "string"
           },
           "port": {
-            "title": "Endpoint port number",
+            "title": "Endpoint port number (required except for protocol 'file')",
+            "type": "integer",
+            "minimum": 1,
+            "maximum": 65535
+          },
+          "broadcast": {
+            "title": "Allow sending to a broadcast address (UDP only)",
+            "type": "boolean",
+            "default": false
+          },
+          "multicast": {
+            "title": "Multicast options when 'ipAddress' is a multicast group (UDP only)",
+            "type": "object",
+            "properties": {
+              "ttl": {
+                "title": "Number of router hops multicast datagrams may cross",
+                "type": "integer",
+                "minimum": 0,
+                "maximum": 255,
+                "default": 1
+              },
+              "loopback": {
+                "title": "Deliver multicast datagrams to listeners on this host",
+                "type": "boolean",
+                "default": false
+              }
+            }
+          },
+          "interface": {
+            "title": "Address of the local interface to send from (UDP only)",
+            "type": "string"
+          },
+          "resolveInterval": { "$ref": "#/definitions/resolveInterval" },
+          "health": { "$ref": "#/definitions/health" },
+          "dryRun": { "$ref": "#/definitions/dryRun" },
+          "trusted": {
+            "title": "Send full-precision 'self' position regardless of privacy settings",
+            "type": "boolean",
+            "default": false
+          },
+          "protocol": {
+            "title": "Transport protocol",
+            "type": "string",
+            "enum": [ "udp", "tcp", "tls", "file" ],
+            "default": "udp"
+          },
+          "path": {
+            "title": "Log file to write reports to (protocol 'file' only, relative to the plugin data directory)",
+            "type": "string"
+          },
+          "rotate": {
+            "title": "Log file rotation (protocol 'file' only)",
+            "type": "object",
+            "properties": {
+              "maxSize": {
+                "title": "Size in bytes at which the log file is rotated",
+                "type": "number",
+                "default": 1048576
+              },
+              "maxFiles": {
+                "title": "Number of rotated log files to keep",
+                "type": "integer",
+                "minimum": 0,
+                "default": 5
+              }
+            }
+          },
+          "reconnect": {
+            "title": "TCP/TLS reconnection delays",
+            "type": "object",
+            "properties": {
+              "minimumDelay": {
+                "title": "Initial delay in seconds before reconnecting a lost connection",
+                "type": "number",
+                "minimum": 1
+              },
+              "maximumDelay": {
+                "title": "Maximum delay in seconds between reconnection attempts",
+                "type": "number",
+                "minimum": 1
+              }
+            }
+          },
+          "maxBufferedBytes": {
+            "title": "Maximum bytes held while a TCP/TLS connection is congested",
             "type": "number",
             "minimum": 0
           },
-          "$ref": "#/definitions/options",
+          "tls": {
+            "title": "TLS connection options",
+            "type": "object",
+            "properties": {
+              "ca": { "title": "Path to CA certificate file", "type": "string" },
+              "cert": { "title": "Path to client certificate file", "type": "string" },
+              "key": { "title": "Path to client key file", "type": "string" },
+              "passphrase": { "title": "Client key passphrase", "type": "string" },
+              "servername": { "title": "Server name for SNI and certificate checks", "type": "string" },
+              "rejectUnauthorized": { "title": "Reject servers with unverifiable certificates", "type": "boolean", "default": true }
+            }
+          },
           "myVessel": { "$ref": "#/definitions/vessel" },
-          "otherVessels": { "$ref": "#/definitions/vessel" }
+          "otherVessels": { "$ref": "#/definitions/otherVessels" },
+          "atons": { "title": "Report aids to navigation (type 21)", "$ref": "#/definitions/options" },
+          "aircraft": { "title": "Report SAR aircraft (type 9)", "$ref": "#/definitions/options" },
+          "basestations": { "title": "Report base stations (type 4)", "$ref": "#/definitions/options" },
+          "budget": { "$ref": "#/definitions/budget" },
+          "queue": { "$ref": "#/definitions/queue" },
+          "framing": { "$ref": "#/definitions/framing" },
+          "passthrough": { "$ref": "#/definitions/passthrough" }
         }        
       }
     }
@@ -66,45 +208,414 @@ const PLUGIN_SCHEMA: object = {
   "definitions": {
     "updateInterval": {
       "oneOf": [
-        { "$ref": "#/$defs/interval" },
-        { "type": "array", "items": { "$ref": "#/$defs/interval" }}
+        { "$ref": "#/definitions/interval" },
+        { "type": "array", "items": { "$ref": "#/definitions/interval" }}
       ]
     },
     "interval": {
-      "type": "integer",
-      "minimum": 0
+      "oneOf": [
+        { "type": "number", "minimum": 0 },
+        { "type": "string", "pattern": "^\\s*\\d+(\\.\\d+)?\\s*[smh]?\\s*$" }
+      ]
     },
     "options": {
-      "expiryinterval": {
-        "title": "Ignore vessel data older than this number of minutes",
-        "$ref": "#/definitions/interval"
-      },
-      "positionUpdateInterval": {
-        "title": "Position update interval in minutes",
-        "$ref": "#/definitions/updateInterval"
-      },
-      "staticUpdateInterval": {
-        "title": "Static data update interval in minutes",
-        "$ref": "#/definitions/updateInterval"
-      },
-      "updateIntervalIndexPath": {
-        "title": "Path which selects override intervals",
-        "type": "string"
-      }  
+      "type": "object",
+      "properties": {
+        "expiryInterval": {
+          "title": "Ignore vessel data older than this interval in minutes (or with suffix 's', 'm' or 'h')",
+          "$ref": "#/definitions/interval"
+        },
+        "positionUpdateInterval": {
+          "title": "Position update interval in minutes (or with suffix 's', 'm' or 'h')",
+          "$ref": "#/definitions/updateInterval"
+        },
+        "staticUpdateInterval": {
+          "title": "Static data update interval in minutes (or with suffix 's', 'm' or 'h')",
+          "$ref": "#/definitions/updateInterval"
+        },
+        "radius": {
+          "title": "Only report vessels within this many nautical miles of own position",
+          "type": "number",
+          "exclusiveMinimum": 0
+        },
+        "geofence": {
+          "title": "Only report vessels inside 'include' and outside 'exclude' GeoJSON polygons",
+          "type": "object",
+          "properties": {
+            "include": {
+              "title": "GeoJSON Polygon, MultiPolygon, Feature or FeatureCollection objects",
+              "type": "array",
+              "items": { "type": "object" }
+            },
+            "exclude": {
+              "title": "GeoJSON Polygon, MultiPolygon, Feature or FeatureCollection objects",
+              "type": "array",
+              "items": { "type": "object" }
+            }
+          }
+        },
+        "minimumReportInterval": {
+          "title": "Shortest interval between adaptive position reports for a vessel",
+          "$ref": "#/definitions/interval"
+        },
+        "maximumReportInterval": {
+          "title": "Longest interval between adaptive position reports for a vessel",
+          "$ref": "#/definitions/interval"
+        },
+        "adaptive": {
+          "title": "Report positions at rates which adapt to each vessel's dynamics",
+          "type": "object",
+          "properties": {
+            "speedThreshold": {
+              "title": "Report early if SOG changes by more than this many knots",
+              "type": "number",
+              "minimum": 0
+            },
+            "courseThreshold": {
+              "title": "Report early if COG changes by more than this many degrees",
+              "type": "number",
+              "minimum": 0
+            },
+            "headingThreshold": {
+              "title": "Report early if heading changes by more than this many degrees",
+              "type": "number",
+              "minimum": 0
+            }
+          }
+        },
+        "updateIntervalIndexPath": {
+          "title": "Path whose value indexes interval arrays (superseded by 'profiles')",
+          "type": "string"
+        },
+        "profiles": {
+          "title": "Named interval profiles, the first whose conditions are all met being used",
+          "type": "array",
+          "items": {
+            "type": "object",
+            "required": [ "name" ],
+            "properties": {
+              "name": {
+                "title": "Profile name",
+                "type": "string"
+              },
+              "positionUpdateInterval": {
+                "title": "Position update interval for this profile",
+                "$ref": "#/definitions/interval"
+              },
+              "staticUpdateInterval": {
+                "title": "Static data update interval for this profile",
+                "$ref": "#/definitions/interval"
+              },
+              "hold": {
+                "title": "Conditions must be met for this long before the profile is used",
+                "$ref": "#/definitions/interval"
+              },
+              "when": {
+                "title": "Conditions on Signal K paths",
+                "type": "array",
+                "items": {
+                  "type": "object",
+                  "required": [ "path", "operator", "value" ],
+                  "properties": {
+                    "path": { "title": "Signal K path", "type": "string" },
+                    "operator": { "title": "Comparison", "type": "string", "enum": [ "==", "!=", ">", ">=", "<", "<=" ] },
+                    "value": { "title": "Value compared with the path's value" },
+                    "hysteresis": { "title": "Amount by which a numeric threshold is relaxed while the profile is in use", "type": "number", "minimum": 0 }
+                  }
+                }
+              }
+            }
+          }
+        },
+        "skipUnchanged": {
+          "title": "Skip reports which would tell the endpoint nothing new",
+          "type": "object",
+          "properties": {
+            "minimumDistance": {
+              "title": "Skip position reports for vessels which have moved less than this many metres",
+              "type": "number",
+              "minimum": 0,
+              "default": 0
+            },
+            "keepAlive": {
+              "title": "Send an unchanged report anyway after this long",
+              "$ref": "#/definitions/interval",
+              "default": "1h"
+            }
+          }
+        },
+        "extendedClassB": { "$ref": "#/definitions/extendedClassB" }
+      }
+    },
+    "budget": {
+      "title": "Data budget (throttles and eventually stops reporting as usage approaches the limit)",
+      "type": "object",
+      "properties": {
+        "daily": {
+          "title": "Maximum bytes per UTC day",
+          "type": "number",
+          "exclusiveMinimum": 0
+        },
+        "monthly": {
+          "title": "Maximum bytes per UTC calendar month",
+          "type": "number",
+          "exclusiveMinimum": 0
+        },
+        "thresholds": {
+          "title": "Fractions of budget at which other vessels are dropped, static data is reduced and 'self' position is reduced",
+          "type": "array",
+          "items": { "type": "number", "exclusiveMinimum": 0, "exclusiveMaximum": 1 },
+          "minItems": 3,
+          "maxItems": 3,
+          "default": [ 0.7, 0.8, 0.9 ]
+        },
+        "stretchFactor": {
+          "title": "Factor by which reduced intervals are lengthened",
+          "type": "number",
+          "minimum": 1,
+          "default": 4
+        }
+      }
+    },
+    "queue": {
+      "title": "Queue reports on disk while the uplink is down and replay them when it returns",
+      "type": "object",
+      "properties": {
+        "maxBytes": {
+          "title": "Maximum size of queued reports in bytes",
+          "type": "number",
+          "exclusiveMinimum": 0,
+          "default": 1048576
+        },
+        "maxAge": {
+          "title": "Discard queued reports older than this",
+          "$ref": "#/definitions/interval",
+          "default": "24h"
+        },
+        "linkPath": {
+          "title": "Signal K path reporting the state of the uplink",
+          "type": "string"
+        },
+        "linkUpValues": {
+          "title": "Values of linkPath which indicate that the uplink is up",
+          "type": "array",
+          "default": [ true, 1, "up", "online", "connected" ]
+        }
+      }
+    },
+    "health": {
+      "title": "Delivery health monitoring (raises notifications when reports are not reaching the endpoint)",
+      "type": "object",
+      "properties": {
+        "warnErrors": {
+          "title": "Warn after this many consecutive delivery errors",
+          "type": "integer",
+          "minimum": 1,
+          "default": 3
+        },
+        "alertErrors": {
+          "title": "Alert after this many consecutive delivery errors",
+          "type": "integer",
+          "minimum": 1,
+          "default": 10
+        },
+        "silence": {
+          "title": "Alert if no report has been delivered for this long (0 disables)",
+          "$ref": "#/definitions/interval",
+          "default": "1h"
+        }
+      }
+    },
+    "dryRun": {
+      "title": "Prepare and count reports but do not send them",
+      "type": "boolean",
+      "default": false
+    },
+    "fleet": {
+      "title": "Managed fleet vessels (e.g. tenders) reported like 'self'",
+      "type": "array",
+      "items": {
+        "type": "object",
+        "allOf": [ { "$ref": "#/definitions/options" } ],
+        "properties": {
+          "mmsi": {
+            "title": "MMSI of the vessel (required unless 'context' is given)",
+            "type": "string",
+            "pattern": "^\\d{9}$"
+          },
+          "context": {
+            "title": "Signal K context of the vessel (e.g. 'vessels.urn:mrn:signalk:uuid:...')",
+            "type": "string",
+            "pattern": "^vessels\\."
+          },
+          "aisClass": {
+            "title": "AIS class to report the vessel as",
+            "type": "string",
+            "enum": [ "A", "B" ],
+            "default": "B"
+          },
+          "static": {
+            "title": "Static data overrides keyed by Signal K path (e.g. 'name', 'design.length.value.overall', 'design.aisShipType.value.id')",
+            "type": "object"
+          },
+          "extendedClassB": { "$ref": "#/definitions/extendedClassB" }
+        }
+      }
+    },
+    "resolveInterval": {
+      "title": "Interval at which UDP endpoint hostnames are resolved again",
+      "$ref": "#/definitions/interval",
+      "default": "10m"
+    },
+    "passthrough": {
+      "title": "Relay received AIVDM sentences rather than re-encoding other vessels",
+      "type": "boolean",
+      "default": false
+    },
+    "framing": {
+      "title": "Sentence framing",
+      "type": "object",
+      "properties": {
+        "stationId": {
+          "title": "Station identifier sent in an NMEA 4.x tag block",
+          "type": "string",
+          "pattern": "^[A-Za-z0-9-]{1,15}$"
+        },
+        "timestamp": {
+          "title": "Send the UNIX time of each report in an NMEA 4.x tag block",
+          "type": "boolean",
+          "default": false
+        },
+        "groupTags": {
+          "title": "Link the sentences of multi-sentence reports with sentence-group tags",
+          "type": "boolean",
+          "default": false
+        },
+        "aivdo": {
+          "title": "Send 'self' reports as AIVDO sentences",
+          "type": "boolean",
+          "default": false
+        },
+        "lineEnding": {
+          "title": "Sentence terminator",
+          "type": "string",
+          "enum": [ "lf", "crlf" ],
+          "default": "lf"
+        },
+        "mtu": {
+          "title": "Pack UDP sentences into datagrams of up to this many bytes",
+          "type": "integer",
+          "minimum": 100,
+          "maximum": 65507
+        }
+      }
+    },
+    "extendedClassB": {
+      "title": "Send class B position reports as extended (type 19) reports",
+      "type": "boolean",
+      "default": false
     },
     "vessel": {
-      "$ref": "#/definitions/options"
+      "type": "object",
+      "allOf": [ { "$ref": "#/definitions/options" } ],
+      "properties": {
+        "privacy": {
+          "title": "Privacy treatment of 'self' position reports (ignored on trusted endpoints)",
+          "type": "object",
+          "properties": {
+            "gridSize": {
+              "title": "Round latitude and longitude to a multiple of this many degrees",
+              "type": "number",
+              "exclusiveMinimum": 0
+            },
+            "delay": {
+              "title": "Report the position from this long ago",
+              "$ref": "#/definitions/interval"
+            },
+            "homeZones": {
+              "title": "Zones in which 'self' position is never reported",
+              "type": "array",
+              "items": {
+                "type": "object",
+                "properties": {
+                  "name": { "title": "Zone name", "type": "string" },
+                  "latitude": { "title": "Latitude of zone centre", "type": "number" },
+                  "longitude": { "title": "Longitude of zone centre", "type": "number" },
+                  "radius": { "title": "Zone radius in nautical miles", "type": "number" },
+                  "geofence": { "title": "GeoJSON Polygon, MultiPolygon, Feature or FeatureCollection", "type": "object" }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "otherVessels": {
+      "type": "object",
+      "allOf": [ { "$ref": "#/definitions/options" } ],
+      "properties": {
+        "rules": {
+          "title": "Ordered rules selecting which other vessels are reported",
+          "type": "array",
+          "items": {
+            "type": "object",
+            "required": [ "action" ],
+            "properties": {
+              "name": {
+                "title": "Rule name",
+                "type": "string"
+              },
+              "action": {
+                "title": "Action for vessels matching every criterion",
+                "type": "string",
+                "enum": [ "include", "exclude" ]
+              },
+              "mmsi": {
+                "title": "MMSIs to match",
+                "type": "array",
+                "items": { "type": "string", "pattern": "^\\d{9}$" }
+              },
+              "mmsiPrefix": {
+                "title": "MMSI prefixes (e.g. MIDs or 970, 972, 974) to match",
+                "type": "array",
+                "items": { "type": "string", "pattern": "^\\d{1,9}$" }
+              },
+              "shipType": {
+                "title": "AIS ship type range to match",
+                "type": "object",
+                "properties": {
+                  "min": { "type": "integer", "minimum": 0, "maximum": 255 },
+                  "max": { "type": "integer", "minimum": 0, "maximum": 255 }
+                }
+              },
+              "aisClass": {
+                "title": "AIS class to match",
+                "type": "string",
+                "enum": [ "A", "B" ]
+              }
+            }
+          }
+        }
+      }
     }
   }
 };
 const PLUGIN_UISCHEMA: object = {};
 
 module.exports = function(app: any) {
+  var pluginOptions: any;
   var pluginConfiguration: PluginConfiguration;
   var pluginStatus: PluginStatus;
-  var udpSocket: Socket;
+  var udpSockets: UdpSocketPool | undefined;
   var heartbeatInterval: NodeJS.Timeout;
-  var heartbeatCount: number = 0;
+  var positionHistory: PositionHistory;
+  var statisticsStore: StatisticsStore | undefined;
+  var statisticsInterval: NodeJS.Timeout;
+  var aisAssembler: AisAssembler = new AisAssembler();
+  var configDiagnostics: ConfigDiagnostic[] = [];
+  var eventStreams: Set<any> = new Set();
+  var eventsInterval: NodeJS.Timeout;
+  var endpointChanges: ((done: () => void) => void)[] = [];
 
   const plugin: SKPlugin = {
     id: PLUGIN_ID,
@@ -114,17 +625,42 @@ module.exports = function(app: any) {
     uiSchema: PLUGIN_UISCHEMA,
   
     start: function(options: any) {
+      var validation: ConfigValidation;
+      var errors: ConfigDiagnostic[];
+
       pluginStatus = new PluginStatus(app, 'started');
+      validation = validateConfiguration(options, DEFAULT_ENDPOINT_OPTIONS);
+      configDiagnostics = validation.diagnostics;
+      configDiagnostics.forEach((d) => app.debug(`configuration ${d.severity} at '${d.path}': ${d.message}`));
+      if ((errors = configDiagnostics.filter((d) => (d.severity == 'error'))).length > 0) {
+        pluginStatus.setDefaultStatus(`Stopped: configuration error at '${errors[0].path}' (${errors[0].message})${(errors.length > 1)?` and ${errors.length - 1} more`:''}`);
+        return;
+      }
       try {
-        pluginConfiguration = makePluginConfiguration(options, DEFAULT_ENDPOINT_OPTIONS);
+        pluginOptions = validation.configuration;
+        pluginConfiguration = makePluginConfiguration(pluginOptions, DEFAULT_ENDPOINT_OPTIONS);
         app.debug(`using configuration: ${JSON.stringify(pluginConfiguration, null, 2)}`)
 
-        if (pluginConfiguration.endpoints.length > 0) {
-          pluginStatus.setDefaultStatus(`Reporting to ${pluginConfiguration.endpoints.length} endpoint${(pluginConfiguration.endpoints.length == 1)?'':'s'} (${pluginConfiguration.endpoints.map((e) => ('\'' + e.name + '\'')).join(', ')})`);
-          heartbeatInterval = startReporting(pluginConfiguration, udpSocket = createSocket('udp4'), HEARTBEAT_INTERVAL);
-        } else {
-          pluginStatus.setDefaultStatus('Stopped: no configured endpoints');
-        }
+        positionHistory = new PositionHistory(getHistoryRetention());
+        statisticsStore = new StatisticsStore(join(app.getDataDirPath(), STATISTICS_FILE));
+        try { statisticsStore.load(); } catch(e: any) { app.debug(`ignoring saved statistics (${e.message})`); }
+        pluginConfiguration.endpoints.forEach((endpoint, index) => {
+          (<StatisticsStore>statisticsStore).attach(endpoint);
+          endpoint.queue = makeQueue(endpoint);
+          try {
+            endpoint.transport = makeTransport(endpoint);
+          } catch(e: any) {
+            endpoint.paused = true;
+            configDiagnostics.push({ severity: 'error', path: `endpoints[${index}]`, message: `endpoint '${endpoint.name}' disabled: ${e.message}` });
+            app.debug(`endpoint '${endpoint.name}' disabled (${e.message})`);
+          }
+        });
+        statisticsInterval = setInterval(saveStatistics, STATISTICS_SAVE_INTERVAL);
+        heartbeatInterval = startReporting(pluginConfiguration, HEARTBEAT_INTERVAL);
+        eventsInterval = setInterval(() => { if (eventStreams.size > 0) sendEvent('status', getStatus()); }, EVENT_STATUS_INTERVAL);
+        app.on('nmea0183', relayNmea0183);
+        updateDefaultStatus();
+        if (configDiagnostics.length > 0) pluginStatus.setStatus(`configuration has ${configDiagnostics.length} ${(configDiagnostics.some((d) => (d.severity == 'error')))?'problem':'warning'}${(configDiagnostics.length == 1)?'':'s'} (see /plugins/${PLUGIN_ID}/config/diagnostics)`);
       } catch(e: any) {
         pluginStatus.setDefaultStatus('Stopped: configuration error');
         app.debug(`${e.lineNumber}: ${e.message}`);
@@ -133,11 +669,38 @@ module.exports = function(app: any) {
 
     stop: function() {
       clearInterval(heartbeatInterval);
-      udpSocket.close();
+      clearInterval(statisticsInterval);
+      clearInterval(eventsInterval);
+      eventStreams.forEach((res) => res.end());
+      eventStreams.clear();
+      app.removeListener('nmea0183', relayNmea0183);
+      saveStatistics();
+      statisticsStore = undefined;
+      if (pluginConfiguration) pluginConfiguration.endpoints.forEach((endpoint) => { if (endpoint.transport) endpoint.transport.close(); });
+      if (udpSockets) udpSockets.close();
+      udpSockets = undefined;
     },
 
     registerWithRouter: function(router) {
       router.get('/status', handleRoutes);
+      router.get('/status/history', handleRoutes);
+      router.get('/metrics', handleRoutes);
+      router.get('/events', handleRoutes);
+      router.get('/traffic', handleRoutes);
+      router.get('/traffic/:name', handleRoutes);
+      router.get('/preview', handleRoutes);
+      router.get('/preview/:name', handleRoutes);
+      router.get('/config/diagnostics', handleRoutes);
+      router.get('/static', handleRoutes);
+      router.get('/static/:mmsi', handleRoutes);
+      router.get('/endpoints', handleRoutes);
+      router.post('/endpoints', handleRoutes);
+      router.get('/endpoints/:name', handleRoutes);
+      router.put('/endpoints/:name', handleRoutes);
+      router.delete('/endpoints/:name', handleRoutes);
+      router.put('/endpoints/:name/:action', handleRoutes);
+      router.post('/report/:type', handleRoutes);
+      router.post('/report/:type/:name', handleRoutes);
     },
 
     getOpenApi: function() {
@@ -161,110 +724,490 @@ module.exports = function(app: any) {
     return({
       myMMSI: app.getSelfPath('mmsi'),
       myAisClass: app.getSelfPath('sensors.ais.class.value') || DEFAULT_MY_AIS_CLASS,
+      fleet: makeFleet(options.fleet),
       endpoints: options.endpoints.map((option: any) => new Endpoint(option, options, defaults))
     });
   }
 
+  /**
+   * Set the plugin's default status message to reflect the endpoints
+   * currently configured.
+   */
+  function updateDefaultStatus() {
+    var endpoints: Endpoint[] = pluginConfiguration.endpoints;
+
+    if (endpoints.length > 0) {
+      pluginStatus.setDefaultStatus(`Reporting to ${endpoints.length} endpoint${(endpoints.length == 1)?'':'s'} (${endpoints.map((e) => ('\'' + e.name + '\'' + ((e.paused)?' paused':''))).join(', ')})`);
+    } else {
+      pluginStatus.setDefaultStatus('Stopped: no configured endpoints');
+    }
+  }
+
+  /**
+   * Get the period for which the host vessel's position history must
+   * be retained to satisfy the longest privacy delay of any endpoint.
+   *
+   * @returns - retention period in milliseconds.
+   */
+  function getHistoryRetention(): number {
+    return(Math.max(0, ...pluginConfiguration.endpoints.map((e) => ((e.myVessel.privacy)?e.myVessel.privacy.delay:0))));
+  }
+
+  /**
+   * Add the outcome of a report to an endpoint's statistics and to
+   * the persistent statistics history.
+   *
+   * @param endpoint - Endpoint which was reported to.
+   * @param reportType - 'position' or 'static'.
+   * @param reportStatistics - ReportStatistics for the report.
+   */
+  function recordStatistics(endpoint: Endpoint, reportType: string, reportStatistics: ReportStatistics) {
+    endpoint.updateStatistics(reportType, reportStatistics);
+    if (statisticsStore) statisticsStore.record(endpoint.name, reportType, reportStatistics, Date.now());
+    if (endpoint.budget) endpoint.budget.settle();
+  }
+
+  function saveStatistics() {
+    try {
+      if (statisticsStore) statisticsStore.save(Date.now());
+    } catch(e: any) {
+      app.debug(`error saving statistics (${e.message})`);
+    }
+  }
+
+  /**
+   * Create the store-and-forward queue for an endpoint which requires
+   * one, loading any backlog left by an earlier session.
+   *
+   * @param endpoint - Endpoint which may require a queue.
+   * @returns - OutboundQueue or undefined.
+   */
+  function makeQueue(endpoint: Endpoint): OutboundQueue | undefined {
+    var queue: OutboundQueue;
+
+    if (!endpoint.queueOptions) return(undefined);
+    queue = new OutboundQueue(endpoint.queueOptions, getQueueFilename(endpoint));
+    try {
+      queue.load(Date.now());
+    } catch(e: any) {
+      app.debug(`endpoint '${endpoint.name}': ignoring saved queue (${e.message})`);
+    }
+    return(queue);
+  }
+
+  /**
+   * Get the path of the file in which an endpoint's store-and-forward
+   * queue is kept.
+   */
+  function getQueueFilename(endpoint: Endpoint): string {
+    return(join(app.getDataDirPath(), `queue-${endpoint.key}.jsonl`));
+  }
+
+  /**
+   * Hand the saved queue of an endpoint which is being replaced or
+   * deleted on to its replacement. The queue file is renamed if the
+   * replacement has a different name and is deleted if there is no
+   * replacement or the replacement has no queue. The endpoint's own
+   * queue is detached so that late delivery failures cannot recreate
+   * the file.
+   *
+   * @param endpoint - Endpoint being replaced or deleted.
+   * @param replacement - Endpoint replacing it, or undefined.
+   */
+  function moveQueue(endpoint: Endpoint, replacement: Endpoint | undefined) {
+    var filename: string = getQueueFilename(endpoint);
+
+    endpoint.queue = undefined;
+    try {
+      if (!existsSync(filename)) return;
+      if ((replacement) && (replacement.queueOptions)) {
+        if (replacement.key != endpoint.key) renameSync(filename, getQueueFilename(replacement));
+      } else {
+        unlinkSync(filename);
+      }
+    } catch(e: any) {
+      app.debug(`endpoint '${endpoint.name}': cannot move saved queue (${e.message})`);
+    }
+  }
+
+  /**
+   * Create the Transport which will deliver reports to an endpoint.
+   * UDP endpoints share the sockets of a UdpSocketPool which opens a
+   * socket for each address family and set of socket options when
+   * first required; TCP and TLS endpoints each maintain their own
+   * connection and file endpoints write to a log file in the plugin's
+   * data directory. An endpoint in dry-run mode is given a transport
+   * which delivers nothing.
+   *
+   * @param endpoint - Endpoint requiring a transport.
+   * @returns - Transport for the endpoint.
+   * @throws - Error if a file endpoint's log file would lie outside
+   * the plugin's data directory.
+   */
+  function makeTransport(endpoint: Endpoint): Transport {
+    app.debug(`makeTransport(${endpoint.name})...`);
+    if (endpoint.dryRun) return(new DryRunTransport(endpoint.protocol, (msg: string) => app.debug(`endpoint '${endpoint.name}': ${msg}`)));
+    switch (endpoint.protocol) {
+      case 'file':
+        let fileOptions: FileTransportOptions = <FileTransportOptions>endpoint.fileOptions;
+        let dataDir: string = resolve(app.getDataDirPath());
+        let path: string = resolve(dataDir, fileOptions.path);
+        let within: string = relative(dataDir, path);
+        if ((within == '') || (within.split(/[\\/]/)[0] == '..') || (isAbsolute(within))) throw new Error(`log file '${fileOptions.path}' is outside the plugin data directory`);
+        return(new FileTransport(Object.assign({}, fileOptions, { path: path }), (msg: string) => app.debug(`endpoint '${endpoint.name}': ${msg}`)));
+      case 'tcp':
+      case 'tls':
+        return(new TcpTransport(endpoint.protocol, endpoint.ipAddress, endpoint.port, endpoint.tcpOptions, (msg: string) => app.debug(`endpoint '${endpoint.name}': ${msg}`)));
+      default:
+        if (!udpSockets) udpSockets = new UdpSocketPool((msg: string) => app.debug(msg));
+        return(new UdpTransport(udpSockets, endpoint.ipAddress, endpoint.port, endpoint.udpOptions, endpoint.framer.mtu, (msg: string) => app.debug(`endpoint '${endpoint.name}': ${msg}`)));
+    }
+  }
+
   /**
    * Creates a timer and associated calback function which is executed
-   * once per minute and manages the entire reporting process by
+   * once per second and manages the entire reporting process by
    * raising position and static reports for all endpoints at the
    * intervals specified in pluginConfiguration and recording resources
    * consumed by the activity of each endpoint.
+   *
+   * Endpoints using fixed intervals are reported when the interval
+   * since their last report has elapsed. Position reports for vessels
+   * on endpoints using adaptive reporting are scheduled per-vessel by
+   * the vessel group's AdaptiveScheduler. Non-vessel targets (aids to
+   * navigation, SAR aircraft and base stations) are reported at the
+   * fixed position update interval of their own group. Vessels of the
+   * managed fleet are scheduled individually using their own intervals
+   * and, like 'self', continue to be reported when a data budget drops
+   * other vessels.
    * 
    * @param pluginConfiguration - a canonical PluginConfiguration.
-   * @param udpSocket - open Socket to be used for reporting over UDP.
+   * @param heartbeat - timer interval in milliseconds.
    * @returns - NodeJS.timeout handle of the timer control. 
    */
-  function startReporting(pluginConfiguration: PluginConfiguration, udpSocket: Socket, heartbeat: number): NodeJS.Timeout {
-    app.debug(`startReporting(pluginConfiguration, udpSocket)...`);
+  function startReporting(pluginConfiguration: PluginConfiguration, heartbeat: number): NodeJS.Timeout {
+    app.debug(`startReporting(pluginConfiguration)...`);
+    pluginConfiguration.endpoints.forEach((endpoint, index) => { endpoint.schedule.startAt = Date.now() + (index * ENDPOINT_STAGGER_INTERVAL); });
     return(setInterval(() => {
-      app.debug(`reportMaybe(${heartbeatCount})...`);
+      var now: number = Date.now();
+
+      positionHistory.record(app.getSelfPath('navigation'), now);
       pluginConfiguration.endpoints.forEach((endpoint) => {
         try {
           var reportStatistics : ReportStatistics = <ReportStatistics>{};
-          var totalBytes: number = 0;
-
-          let mvIDX: number = ((endpoint.myVessel.updateIntervalIndexPath)?(app.getSelfPath(`${endpoint.myVessel.updateIntervalIndexPath}.value`) || 0):0);
-          let ovIDX: number = ((endpoint.otherVessels.updateIntervalIndexPath)?(app.getSelfPath(`${endpoint.otherVessels.updateIntervalIndexPath}.value`) || 0):0);
-          let mvPUI: number = _.get(endpoint, `myVessel.positionUpdateIntervals[${mvIDX}]`, 0);
-          let mvSUI: number = _.get(endpoint, `myVessel.staticUpdateIntervals[${mvIDX}]`, 0);
-          let ovPUI: number = _.get(endpoint, `otherVessels.positionUpdateIntervals[${ovIDX}]`, 0);
-          let ovSUI: number = _.get(endpoint, `otherVessels.staticUpdateIntervals[${ovIDX}]`, 0);
-          
-          app.debug(`mvIDX = ${mvIDX}, mvPUI = ${mvPUI}, mvSUI = ${mvSUI}`);
-          app.debug(`ovIDX = ${ovIDX}, ovPUI = ${ovPUI}, ovSUI = ${ovSUI}`);
-
-          if (((mvPUI !== 0) && ((heartbeatCount % mvPUI) === 0)) || ((ovPUI !== 0) && ((heartbeatCount % ovPUI) === 0))) { 
-            pluginStatus.setStatus(`sending position report to endpoint '${endpoint.name}'`);
-            reportStatistics = reportPosition(udpSocket, endpoint, (mvPUI === 0)?false:((heartbeatCount % mvPUI) === 0), (ovPUI === 0)?false:((heartbeatCount % ovPUI) === 0));
-            endpoint.updateStatistics('position', reportStatistics);
+
+          if ((endpoint.paused) || (now < endpoint.schedule.startAt)) return;
+
+          updateProfiles(endpoint, now);
+          updateHealth(endpoint, now);
+          let throttle: number = updateBudget(endpoint, now);
+          if (throttle == THROTTLE.STOP) return;
+          if ((endpoint.queue) && (endpoint.queue.length > 0) && (isLinkUp(endpoint))) replayQueue(endpoint, now);
+          let synthesizeOthers: boolean = (throttle < THROTTLE.DROP_OTHERS) && (!endpoint.relay);
+
+          let mvProfile: Profile = endpoint.myVessel.profiles.getActive();
+          let ovProfile: Profile = endpoint.otherVessels.profiles.getActive();
+          let mvPUI: number = mvProfile.positionUpdateInterval;
+          let mvSUI: number = mvProfile.staticUpdateInterval;
+          let ovPUI: number = ovProfile.positionUpdateInterval;
+          let ovSUI: number = ovProfile.staticUpdateInterval;
+          if (throttle >= THROTTLE.REDUCE_STATIC) mvSUI = (<DataBudget>endpoint.budget).stretch(mvSUI);
+          if (throttle >= THROTTLE.REDUCE_POSITION) mvPUI = (<DataBudget>endpoint.budget).stretch(mvPUI);
+          let mvPD: boolean = ((endpoint.myVessel.adaptive) && (throttle < THROTTLE.REDUCE_POSITION))?(mvPUI !== 0):isDue(endpoint.schedule.position.self, mvPUI, now);
+          let ovPD: boolean = (synthesizeOthers) && ((endpoint.otherVessels.adaptive)?(ovPUI !== 0):isDue(endpoint.schedule.position.others, ovPUI, now));
+          let mvSD: boolean = isDue(endpoint.schedule.static.self, mvSUI, now);
+          let ovSD: boolean = (synthesizeOthers) && isDue(endpoint.schedule.static.others, ovSUI, now);
+
+          if ((mvPD) || (ovPD)) {
+            reportStatistics = reportPosition(endpoint, mvPD, ovPD);
+            if ((reportStatistics.self.reports + reportStatistics.others.reports) > 0) pluginStatus.setStatus(`sent position report to endpoint '${endpoint.name}'`);
+            if (mvPD) endpoint.schedule.position.self = now;
+            if (ovPD) endpoint.schedule.position.others = now;
+            recordStatistics(endpoint, 'position', reportStatistics);
           };
 
-          if (((mvSUI !== 0) && ((heartbeatCount % mvSUI) === 0)) || ((ovSUI !== 0) && ((heartbeatCount % ovSUI) === 0))) {
+          if ((mvSD) || (ovSD)) {
+            app.debug(`mvProfile = ${mvProfile.name}, mvSUI = ${mvSUI}, ovProfile = ${ovProfile.name}, ovSUI = ${ovSUI}`);
             pluginStatus.setStatus(`sending static data report to endpoint '${endpoint.name}'`);
-            reportStatistics = reportStatic(udpSocket, endpoint, (mvSUI === 0)?false:((heartbeatCount % mvSUI) === 0), (ovSUI === 0)?false:((heartbeatCount % ovSUI) === 0));
-            endpoint.updateStatistics('static', reportStatistics);
+            reportStatistics = reportStatic(endpoint, mvSD, ovSD);
+            if (mvSD) endpoint.schedule.static.self = now;
+            if (ovSD) endpoint.schedule.static.others = now;
+            recordStatistics(endpoint, 'static', reportStatistics);
+          }
+
+          let fleetPD: string[] = [];
+          let fleetSD: string[] = [];
+          Object.keys(endpoint.fleet).forEach((key) => {
+            let group: Vessel = endpoint.fleet[key];
+            let profile: Profile = group.profiles.getActive();
+            let pui: number = (throttle >= THROTTLE.REDUCE_POSITION)?(<DataBudget>endpoint.budget).stretch(profile.positionUpdateInterval):profile.positionUpdateInterval;
+            let sui: number = (throttle >= THROTTLE.REDUCE_STATIC)?(<DataBudget>endpoint.budget).stretch(profile.staticUpdateInterval):profile.staticUpdateInterval;
+
+            if (((group.adaptive) && (throttle < THROTTLE.REDUCE_POSITION))?(pui !== 0):isDue(endpoint.schedule.fleet[key].position, pui, now)) fleetPD.push(key);
+            if (isDue(endpoint.schedule.fleet[key].static, sui, now)) fleetSD.push(key);
+          });
+
+          if (fleetPD.length > 0) {
+            recordStatistics(endpoint, 'position', reportFleet(endpoint, 'position', fleetPD));
+            fleetPD.forEach((key) => { endpoint.schedule.fleet[key].position = now; });
+          }
+
+          if (fleetSD.length > 0) {
+            recordStatistics(endpoint, 'static', reportFleet(endpoint, 'static', fleetSD));
+            fleetSD.forEach((key) => { endpoint.schedule.fleet[key].static = now; });
           }
 
+          if (synthesizeOthers) Object.keys(endpoint.targets).forEach((group) => {
+            if (isDue(endpoint.schedule.targets[group] || 0, endpoint.targets[group].profiles.getActive().positionUpdateInterval, now)) {
+              recordStatistics(endpoint, 'position', reportTargets(endpoint, group));
+              endpoint.schedule.targets[group] = now;
+            }
+          });
+
+          if (endpoint.myVessel.adaptive) endpoint.myVessel.adaptive.expire(now);
+          if (endpoint.otherVessels.adaptive) endpoint.otherVessels.adaptive.expire(now);
+          Object.values(endpoint.fleet).forEach((group) => { if (group.adaptive) group.adaptive.expire(now); });
+          if (endpoint.relay) endpoint.relay.expire(now);
+          getVesselGroups(endpoint).forEach(([ name, group ]) => { if (group.changeFilter) group.changeFilter.expire(now); });
         } catch(e: any) {
           app.debug(`${e.message}`);
         }
       });
-      heartbeatCount++;
     }, heartbeat));
   }
 
+  /**
+   * Re-evaluate the interval profiles of each of an endpoint's vessel
+   * groups, logging any change of profile. The profile conditions of a
+   * fleet vessel are evaluated against the fleet vessel's own data and
+   * those of all other groups against the host vessel's.
+   *
+   * @param endpoint - Endpoint to be updated.
+   * @param now - current time in milliseconds.
+   */
+  function updateProfiles(endpoint: Endpoint, now: number) {
+    var vessels: any = app.getPath('vessels');
+
+    getVesselGroups(endpoint).forEach(([ name, group ]) => {
+      let member: FleetMember | undefined = pluginConfiguration.fleet.find((member) => (name == `fleet:${member.key}`));
+      let vessel: any = (member)?member.find(vessels):undefined;
+      let active: string = group.profiles.getActive().name;
+      let profile: Profile = group.profiles.update((path: string) => ((member)?_.get(vessel, `${path}.value`, undefined):app.getSelfPath(`${path}.value`)), now);
+
+      if (profile.name != active) app.debug(`endpoint '${endpoint.name}': ${name} now using profile '${profile.name}'`);
+    });
+  }
+
+  /**
+   * Get an endpoint's vessel groups (including non-vessel target
+   * groups and, named 'fleet:<key>', the groups of fleet vessels) by
+   * name.
+   */
+  function getVesselGroups(endpoint: Endpoint): [ string, Vessel ][] {
+    return([ [ 'myVessel', endpoint.myVessel ], [ 'otherVessels', endpoint.otherVessels ], ...Object.entries(endpoint.targets), ...Object.entries(endpoint.fleet).map(([ key, group ]): [ string, Vessel ] => [ `fleet:${key}`, group ]) ]);
+  }
+
+  /**
+   * Make an immediate position or static report of all vessels
+   * (including those of the managed fleet and, for position reports,
+   * all configured non-vessel targets) to an
+   * endpoint outside of its normal schedule. The report restarts the
+   * endpoint's reporting intervals for the report type.
+   *
+   * @param endpoint - Endpoint to be reported to.
+   * @param reportType - 'position' or 'static'.
+   * @returns - ReportStatistics for the transmission.
+   */
+  function forceReport(endpoint: Endpoint, reportType: string): ReportStatistics {
+    app.debug(`forceReport(${endpoint.name}, ${reportType})...`);
+    var now: number = Date.now();
+    var throttle: number = updateBudget(endpoint, now);
+    var synthesizeOthers: boolean = (throttle < THROTTLE.DROP_OTHERS) && (!endpoint.relay);
+    var reportStatistics: ReportStatistics;
+
+    if (throttle == THROTTLE.STOP) return(makeReportStatistics());
+    if (reportType == 'position') {
+      reportStatistics = reportPosition(endpoint, true, synthesizeOthers, true);
+      endpoint.schedule.position = { self: now, others: now };
+      if (synthesizeOthers) Object.keys(endpoint.targets).forEach((group) => {
+        let targetStatistics: ReportStatistics = reportTargets(endpoint, group, true);
+        reportStatistics.others.reports += targetStatistics.others.reports;
+        reportStatistics.others.bytes += targetStatistics.others.bytes;
+        endpoint.schedule.targets[group] = now;
+      });
+    } else {
+      reportStatistics = reportStatic(endpoint, true, synthesizeOthers, true);
+      endpoint.schedule.static = { self: now, others: now };
+    }
+    reportStatistics.fleet = reportFleet(endpoint, reportType, Object.keys(endpoint.fleet), true).fleet;
+    Object.keys(endpoint.fleet).forEach((key) => { endpoint.schedule.fleet[key][<'position' | 'static'>reportType] = now; });
+    recordStatistics(endpoint, reportType, reportStatistics);
+    pluginStatus.setStatus(`sent requested ${reportType} report to endpoint '${endpoint.name}'`);
+    return(reportStatistics);
+  }
+
+  /**
+   * Update the throttle level of an endpoint with a data budget from
+   * the endpoint's usage today and this month, raising a notification
+   * whenever the level changes.
+   *
+   * @param endpoint - Endpoint to be checked.
+   * @param now - current time in milliseconds.
+   * @returns - throttle level for the endpoint.
+   */
+  function updateBudget(endpoint: Endpoint, now: number): number {
+    var budget: DataBudget | undefined = endpoint.budget;
+
+    if ((!budget) || (!statisticsStore)) return(THROTTLE.NONE);
+    if (budget.update(statisticsStore.getUsage(endpoint.name, now))) {
+      app.debug(`endpoint '${endpoint.name}': data budget throttle level is now '${budget.getLevelName()}'`);
+      raiseNotification(endpoint, 'budget', (budget.level == THROTTLE.NONE)?'normal':((budget.level == THROTTLE.STOP)?'alarm':'warn'), `AIS reporter endpoint '${endpoint.name}' data budget: ${(budget.level == THROTTLE.STOP)?'exhausted, reporting stopped':`throttle level '${budget.getLevelName()}'`}`);
+    }
+    return(budget.level);
+  }
+
+  /**
+   * Update the health of an endpoint from the record of deliveries by
+   * its transport, raising a notification whenever the health state
+   * changes.
+   *
+   * @param endpoint - Endpoint to be checked.
+   * @param now - current time in milliseconds.
+   */
+  function updateHealth(endpoint: Endpoint, now: number) {
+    if (endpoint.health.update((endpoint.transport)?endpoint.transport.delivery.getStatus(now):undefined, now)) {
+      app.debug(`endpoint '${endpoint.name}': health is now '${endpoint.health.state}'${(endpoint.health.reason)?` (${endpoint.health.reason})`:''}`);
+      raiseNotification(endpoint, 'health', endpoint.health.state, `AIS reporter endpoint '${endpoint.name}' ${(endpoint.health.reason)?endpoint.health.reason:'is delivering reports'}`);
+    }
+  }
+
+  /**
+   * Raise (or, with state 'normal', clear) a Signal K notification
+   * concerning an endpoint.
+   *
+   * @param endpoint - Endpoint which is the subject of the notification.
+   * @param key - final component of the notification path.
+   * @param state - Signal K alarm state.
+   * @param message - notification message.
+   */
+  function raiseNotification(endpoint: Endpoint, key: string, state: string, message: string) {
+    app.handleMessage(PLUGIN_ID, {
+      updates: [{
+        values: [{
+          path: `notifications.plugins.${PLUGIN_ID}.${endpoint.key}.${key}`,
+          value: { state: state, method: (state == 'normal')?[]:[ 'visual' ], message: message }
+        }]
+      }]
+    });
+  }
+
+  /**
+   * Check whether a report at a fixed interval is due.
+   *
+   * @param last - time in milliseconds of the previous report.
+   * @param interval - reporting interval in seconds (0 disables).
+   * @param now - current time in milliseconds.
+   * @returns - true if a report is due.
+   */
+  function isDue(last: number, interval: number, now: number): boolean {
+    return((interval !== 0) && ((now - last) >= (interval * 1000)));
+  }
+
+  /**
+   * Get the vessels which are candidates for reporting to an endpoint:
+   * those in the requested groups which have a current position, are
+   * admitted by any vessel rules configured for the group and have a
+   * position that passes any geographic filter configured for the
+   * group. Vessels whose position has expired are dropped before the
+   * rules are applied, so rule match counts exclude them. The
+   * number of vessels rejected by geographic filters is recorded on the
+   * endpoint.
+   *
+   * @param endpoint - Endpoint to be processed.
+   * @param reportSelf - true to include 'self' vessel.
+   * @param reportOthers - true to include vessels other than 'self'
+   * (excluding those of the managed fleet).
+   * @returns - array of Signal K vessel objects.
+   */
+  function selectVessels(endpoint: Endpoint, reportSelf: boolean, reportOthers: boolean): any[] {
+    var ownPosition: Position | undefined = app.getSelfPath('navigation.position.value');
+    var filtered: { self: number, others: number } = { self: 0, others: 0 };
+    var rules: VesselRuleSet | undefined = (reportOthers)?endpoint.otherVessels.rules:undefined;
+    var vessels: any = app.getPath('vessels');
+    var fleet: [ FleetMember, any ][] = findFleet(vessels);
+    var retval: any[];
+
+    if (rules) rules.reset();
+    retval = Object.values(vessels)
+    .filter((vessel: any) => ((reportSelf && (vessel.mmsi == pluginConfiguration.myMMSI)) || (reportOthers && (vessel.mmsi != pluginConfiguration.myMMSI) && (!isFleetVessel(vessel, fleet)))))
+    .filter((vessel: any) => (reportSelf && (_.get(vessel, 'navigation.position.timestamp', false)) && ((new Date(vessel.navigation.position.timestamp)).getTime() > (Date.now() - (endpoint.myVessel.expiryInterval * 60000)))) || (reportOthers && (_.get(vessel, 'navigation.position.timestamp', false)) && ((new Date(vessel.navigation.position.timestamp)).getTime() > (Date.now() - (endpoint.otherVessels.expiryInterval * 60000)))))
+    .filter((vessel: any) => ((!rules) || (vessel.mmsi == pluginConfiguration.myMMSI) || (rules.includes(vessel))))
+    .filter((vessel: any) => {
+      let isSelf: boolean = (vessel.mmsi == pluginConfiguration.myMMSI);
+      let geoFilter: GeoFilter | undefined = (isSelf)?endpoint.myVessel.geoFilter:endpoint.otherVessels.geoFilter;
+      let position: Position | undefined = _.get(vessel, 'navigation.position.value', undefined);
+
+      if ((geoFilter) && ((!position) || (!geoFilter.accepts(position, ownPosition)))) {
+        filtered[(isSelf)?'self':'others']++;
+        return(false);
+      }
+      return(true);
+    });
+    if (reportSelf) endpoint.vesselsFiltered.self = filtered.self;
+    if (reportOthers) endpoint.vesselsFiltered.others = filtered.others;
+    return(retval);
+  }
+
   /**
    * Generate one or more AIS position reports for transmission to a
-   * specified endpoint and forward these reports for UDP output.
+   * specified endpoint and forward these reports for output.
    * 
-   * @param socket - Socket to be used for report transmission. 
    * @param endpoint - Endpoint to be processed.
    * @param reportSelf - true to report 'self' vessel.
    * @param reportOthers - true to report vessels other than 'self'.
+   * @param force - true to report vessels regardless of any adaptive
+   * schedule or change filter.
    * @returns - ReportStatistics for the transmission.
    */
-  function reportPosition(socket: Socket, endpoint: Endpoint, reportSelf: boolean, reportOthers: boolean): ReportStatistics {
-    app.debug(`reportPosition(socket, ${endpoint.name}, ${reportSelf}, ${reportOthers})...`)
-    var reportStatistics: ReportStatistics = { self: { reports: 0, bytes: 0 }, others: { reports: 0, bytes: 0 }};
+  function reportPosition(endpoint: Endpoint, reportSelf: boolean, reportOthers: boolean, force: boolean = false): ReportStatistics {
+    app.debug(`reportPosition(${endpoint.name}, ${reportSelf}, ${reportOthers})...`)
+    var reportStatistics: ReportStatistics = makeReportStatistics();
     var aisClass: string;
     var aisProperties: AisEncodeOptions;
-    var msg: any;
-    var bytesTransmitted: number;
+    var mapping: MappingResult;
+    var group: Vessel;
+    var sentences: string[];
+    var sent: SendResult;
+
+    selectVessels(endpoint, reportSelf, reportOthers).forEach((vessel: any) => {
+      let current: any = vessel;
 
-    Object.values(app.getPath('vessels'))
-    .filter((vessel: any) => ((reportSelf && (vessel.mmsi == pluginConfiguration.myMMSI)) || (reportOthers && (vessel.mmsi != pluginConfiguration.myMMSI))))
-    .filter((vessel: any) => (reportSelf && (_.get(vessel, 'navigation.position.timestamp', false)) && ((new Date(vessel.navigation.position.timestamp)).getTime() > (Date.now() - (endpoint.myVessel.expiryInterval * 6000)))) || (reportOthers && (_.get(vessel, 'navigation.position.timestamp', false)) && ((new Date(vessel.navigation.position.timestamp)).getTime() > (Date.now() - (endpoint.otherVessels.expiryInterval * 60000)))))
-    .forEach((vessel: any) => {
       try {  
-        aisProperties = { mmsi: vessel.mmsi };
         aisClass = (vessel.mmsi == pluginConfiguration.myMMSI)?pluginConfiguration.myAisClass:_.get(vessel, 'sensors.ais.class.value', DEFAULT_MY_AIS_CLASS);
-        aisProperties['accuracy'] = 0;
-        aisProperties['aistype'] = (aisClass == 'A')?1:18;
-        aisProperties['cog'] = radsToDeg(_.get(vessel, 'navigation.courseOverGroundTrue.value', 0));
-        aisProperties['hdg'] = _.get(vessel, 'navigation.headingTrue.value', 511);
-        aisProperties['lat'] = vessel.navigation.position.value.latitude
-        aisProperties['lon'] = vessel.navigation.position.value.longitude
-        aisProperties['own'] = (pluginConfiguration.myMMSI == vessel.mmsi)?1:0
-        aisProperties['repeat'] = 3
-        aisProperties['rot'] = _.get(vessel, 'navigation.rateOfTurn.value', 128);
-        aisProperties['sog'] = mpsToKn(_.get(vessel, 'navigation.speedOverGround.value', 0));
-        aisProperties['smi'] = decodeSMI(_.get(vessel, 'navigation.specialManeuver', 'not available')); 
-        msg = new AisEncode(aisProperties);
-
-        if ((msg) && (msg.valid)) {
-          bytesTransmitted = sendReportMsg(socket, msg.nmea, endpoint);
-          if ((reportSelf) && (vessel.mmsi == pluginConfiguration.myMMSI)) { // reporting self
-            reportStatistics.self.reports++;
-            reportStatistics.self.bytes += bytesTransmitted;
-          } else {
-            reportStatistics.others.reports++;
-            reportStatistics.others.bytes += bytesTransmitted;
-          }
-        } else throw new Error('AIS encode failed');
+        group = (vessel.mmsi == pluginConfiguration.myMMSI)?endpoint.myVessel:endpoint.otherVessels;
+        if ((!force) && (group.adaptive) && (!group.adaptive.isDue(vessel, aisClass, Date.now()))) return;
+        if ((vessel.mmsi == pluginConfiguration.myMMSI) && (endpoint.myVessel.privacy)) {
+          vessel = endpoint.myVessel.privacy.apply(vessel, positionHistory, Date.now());
+          if (!vessel) return;
+        }
+        mapping = mapPosition(vessel);
+        reportMappingIssues(vessel, mapping);
+        if (!mapping.options) throw new Error('no valid position');
+        aisProperties = mapping.options;
+        if ((group.changeFilter) && (!group.changeFilter.acceptsPosition(vessel.mmsi, { latitude: <number>aisProperties.lat, longitude: <number>aisProperties.lon }, Date.now(), force))) {
+          if (group.adaptive) group.adaptive.record(current, Date.now());
+          reportStatistics[(vessel.mmsi == pluginConfiguration.myMMSI)?'self':'others'].suppressed++;
+          return;
+        }
+        sentences = encodePosition(vessel, aisClass, group, aisProperties, (vessel.mmsi == pluginConfiguration.myMMSI));
+        sent = sendReport(endpoint, { time: Date.now(), type: 'position', mmsi: vessel.mmsi, self: (vessel.mmsi == pluginConfiguration.myMMSI), sentences: sentences });
+        if ((sent.accepted) && (group.adaptive)) group.adaptive.record(current, Date.now());
+        if ((sent.accepted) && (group.changeFilter)) group.changeFilter.recordPosition(vessel.mmsi, { latitude: <number>aisProperties.lat, longitude: <number>aisProperties.lon }, Date.now());
+        countReport(reportStatistics, (vessel.mmsi == pluginConfiguration.myMMSI)?'self':'others', sent.bytes);
       } catch(e: any) {
         app.debug(`error sending AIS position report for vessel '${vessel.mmsi}' to endpoint '${endpoint.name}' (${e.message})`)
+        reportStatistics[(vessel.mmsi == pluginConfiguration.myMMSI)?'self':'others'].errors++;
+        endpoint.health.recordEncodeFailure(vessel.mmsi, (vessel.mmsi == pluginConfiguration.myMMSI)?'self':'others', `position: ${e.message}`, Date.now());
       }
     });
     return(reportStatistics);
@@ -272,120 +1215,608 @@ module.exports = function(app: any) {
 
   /**
    * Generate one or more AIS static data reports for transmission to a
-   * specified endpoint and forward these reports for UDP output.
+   * specified endpoint and forward these reports for output.
    * 
-   * @param socket - Socket to be used for report transmission. 
    * @param endpoint - Endpoint to be processed.
    * @param reportSelf - true to report 'self' vessel.
    * @param reportOthers - true to report vessels other than 'self'.
+   * @param force - true to report vessels even if their static data is
+   * unchanged.
    * @returns - ReportStatistics for the transmission.
    */
-  function reportStatic(socket: Socket, endpoint: Endpoint, reportSelf: boolean = false, reportOthers: boolean = false): ReportStatistics {
-    app.debug(`reportStatic(socket, ${endpoint.name}, ${reportSelf}, ${reportOthers})...`)
-    var reportStatistics: ReportStatistics = { self: { reports: 0, bytes: 0 }, others: { reports: 0, bytes: 0 }};
+  function reportStatic(endpoint: Endpoint, reportSelf: boolean = false, reportOthers: boolean = false, force: boolean = false): ReportStatistics {
+    app.debug(`reportStatic(${endpoint.name}, ${reportSelf}, ${reportOthers})...`)
+    var reportStatistics: ReportStatistics = makeReportStatistics();
     var aisClass: string
-    var aisProperties: any
-    var msg: any, msgB: any
-    var bytesTransmitted: number;
+    var sentences: string[] | undefined;
+    var changeFilter: ChangeFilter | undefined;
+    var sent: SendResult;
   
-    Object.values(app.getPath('vessels'))
-    .filter((vessel: any) => ((reportSelf && (vessel.mmsi == pluginConfiguration.myMMSI)) || (reportOthers && (vessel.mmsi != pluginConfiguration.myMMSI))))
-    .filter((vessel: any) => (reportSelf && (_.get(vessel, 'navigation.position.timestamp', false)) && ((new Date(vessel.navigation.position.timestamp)).getTime() > (Date.now() - (endpoint.myVessel.expiryInterval * 6000)))) || (reportOthers && (_.get(vessel, 'navigation.position.timestamp', false)) && ((new Date(vessel.navigation.position.timestamp)).getTime() > (Date.now() - (endpoint.otherVessels.expiryInterval * 60000)))))
-    .forEach((vessel: any) => {
+    selectVessels(endpoint, reportSelf, reportOthers).forEach((vessel: any) => {
       try {
-        aisProperties = { mmsi: vessel.mmsi };
         aisClass = (vessel.mmsi == pluginConfiguration.myMMSI)?pluginConfiguration.myAisClass:_.get(vessel, 'sensors.ais.class.value', DEFAULT_MY_AIS_CLASS);
-        aisProperties['callsign'] = '';
-        aisProperties['cargo'] = _.get(vessel, 'design.aisShipType.value.id', 0);
-        aisProperties['destination'] = _.get(vessel, 'navigation.destination.commonName', '');
-        aisProperties['dimA'] = (_.get(vessel, 'sensors.ais.fromBow.value', 0)).toFixed(0);
-        aisProperties['dimB'] = (_.get(vessel, 'design.length.value.overall', 0) - _.get(vessel, 'sensors.gps.fromBow.value', 0)).toFixed(0);
-        aisProperties['dimC'] = (_.get(vessel, 'design.beam.value', 0) / 2 + _.get(vessel, 'sensors.gps.fromCenter.value', 0)).toFixed(0);
-        aisProperties['dimD'] = (_.get(vessel, 'design.beam.value', 0) / 2 - _.get(vessel, 'sensors.gps.fromCenter.value', 0)).toFixed(0);
-        aisProperties['draught'] = _.get(vessel, 'design.draft.value.maximum', 0);
-        aisProperties['etaDay'] = 0;
-        aisProperties['etaHr'] = 0;
-        aisProperties['etaMin'] = 0;
-        aisProperties['etaMo'] = 0;
-        aisProperties['imo'] = '';
-        aisProperties['repeat'] = 3;
-        aisProperties['shipname'] = _.get(vessel, 'name', '');
-        switch (aisClass) {
-          case 'A':
-            aisProperties['aistype'] = 5;
-            msg = new AisEncode(aisProperties);
-            if ((msg) && (msg.valid)) {
-              bytesTransmitted = sendReportMsg(socket, msg.nmea, endpoint);
-              if ((reportSelf) && (vessel.mmsi == pluginConfiguration.myMMSI)) {
-                reportStatistics.self.reports++;
-                reportStatistics.self.bytes += bytesTransmitted;
-              } else {
-                reportStatistics.others.reports++;
-                reportStatistics.others.bytes += bytesTransmitted;
-              }
-            } else throw new Error('AIS encode failed');
-            break;
-          case 'B':
-            aisProperties['aistype'] = 24;
-            aisProperties['part'] = 0;
-            msg = new AisEncode(aisProperties);
-            if ((msg) && (msg.valid)) {
-              aisProperties['part'] = 1;
-              msgB = new AisEncode(aisProperties);
-              if ((msgB) && (msgB.valid)) {
-                bytesTransmitted = sendReportMsg(socket, msg.nmea, endpoint);
-                bytesTransmitted += sendReportMsg(socket, msgB.nmea, endpoint);
-                if ((reportSelf) && (vessel.mmsi == pluginConfiguration.myMMSI)) {
-                  reportStatistics.self.reports++;
-                  reportStatistics.self.bytes += bytesTransmitted;
-                } else {
-                  reportStatistics.others.reports++;
-                  reportStatistics.others.bytes += bytesTransmitted;
-                }
-              } else throw new Error('AIS Part B encode failed');
-            } else throw new Error('AIS Part A encode failed');
-            break;
-          default:
-            break;
-        }          
+        if (!(sentences = encodeStatic(vessel, aisClass))) return;
+        changeFilter = (vessel.mmsi == pluginConfiguration.myMMSI)?endpoint.myVessel.changeFilter:endpoint.otherVessels.changeFilter;
+        if ((changeFilter) && (!changeFilter.acceptsStatic(vessel.mmsi, sentences, Date.now(), force))) {
+          reportStatistics[(vessel.mmsi == pluginConfiguration.myMMSI)?'self':'others'].suppressed++;
+          return;
+        }
+        sent = sendReport(endpoint, { time: Date.now(), type: 'static', mmsi: vessel.mmsi, self: (vessel.mmsi == pluginConfiguration.myMMSI), sentences: sentences });
+        if ((sent.accepted) && (changeFilter)) changeFilter.recordStatic(vessel.mmsi, sentences, Date.now());
+        countReport(reportStatistics, (vessel.mmsi == pluginConfiguration.myMMSI)?'self':'others', sent.bytes);
       } catch(e: any) {
         app.debug(`error sending AIS static data report for vessel '${vessel.mmsi}' to endpoint '${endpoint.name}' (${e.message})`)
+        reportStatistics[(vessel.mmsi == pluginConfiguration.myMMSI)?'self':'others'].errors++;
+        endpoint.health.recordEncodeFailure(vessel.mmsi, (vessel.mmsi == pluginConfiguration.myMMSI)?'self':'others', `static: ${e.message}`, Date.now());
       }
     });
     return(reportStatistics);
   }
 
   /**
-   * Transmits a message string over UDP.
-   * 
-   * Throws an exception on transmission error.
+   * Find the Signal K vessels of the members of the managed fleet.
+   *
+   * @param vessels - Signal K 'vessels' object.
+   * @returns - array of each member known to Signal K with its vessel.
+   */
+  function findFleet(vessels: any): [ FleetMember, any ][] {
+    return(pluginConfiguration.fleet.map((member): [ FleetMember, any ] => [ member, member.find(vessels) ]).filter(([ member, vessel ]) => (vessel !== undefined)));
+  }
+
+  /**
+   * Check whether a Signal K vessel is, or is reported under the MMSI
+   * of, a member of the managed fleet.
+   */
+  function isFleetVessel(vessel: any, fleet: [ FleetMember, any ][]): boolean {
+    return(fleet.some(([ member, v ]) => ((v === vessel) || (member.apply(v).mmsi == vessel.mmsi))));
+  }
+
+  /**
+   * Get the members of the managed fleet which are candidates for
+   * reporting to an endpoint: those requested whose Signal K vessel has
+   * a current position that passes any geographic filter configured for
+   * the member and which have an MMSI. Each member is returned with the
+   * vessel object from which its reports are made. The number of
+   * members rejected by geographic filters is recorded on the endpoint.
+   *
+   * @param endpoint - Endpoint to be processed.
+   * @param keys - keys of the requested fleet members.
+   * @returns - array of FleetMember and vessel object pairs.
+   */
+  function selectFleet(endpoint: Endpoint, keys: string[]): [ FleetMember, any ][] {
+    var ownPosition: Position | undefined = app.getSelfPath('navigation.position.value');
+    var filtered: number = 0;
+    var retval: [ FleetMember, any ][];
+
+    retval = findFleet(app.getPath('vessels'))
+    .filter(([ member, vessel ]) => (keys.includes(member.key)))
+    .filter(([ member, vessel ]) => ((_.get(vessel, 'navigation.position.timestamp', false)) && ((new Date(vessel.navigation.position.timestamp)).getTime() > (Date.now() - (endpoint.fleet[member.key].expiryInterval * 60000)))))
+    .filter(([ member, vessel ]) => {
+      let geoFilter: GeoFilter | undefined = endpoint.fleet[member.key].geoFilter;
+      let position: Position | undefined = _.get(vessel, 'navigation.position.value', undefined);
+
+      if ((geoFilter) && ((!position) || (!geoFilter.accepts(position, ownPosition)))) {
+        filtered++;
+        return(false);
+      }
+      return(true);
+    })
+    .map(([ member, vessel ]): [ FleetMember, any ] => [ member, member.apply(vessel) ])
+    .filter(([ member, vessel ]) => (vessel.mmsi));
+    endpoint.vesselsFiltered.fleet = filtered;
+    return(retval);
+  }
+
+  /**
+   * Generate position or static data reports for members of the
+   * managed fleet and forward these reports for output. Fleet vessels
+   * are reported like 'self': as own-vessel reports, using their
+   * configured AIS class and static data overrides, but with no
+   * privacy treatment.
+   *
+   * @param endpoint - Endpoint to be processed.
+   * @param reportType - 'position' or 'static'.
+   * @param keys - keys of the fleet members to be reported.
+   * @param force - true to report vessels regardless of any adaptive
+   * schedule or change filter.
+   * @returns - ReportStatistics for the transmission.
+   */
+  function reportFleet(endpoint: Endpoint, reportType: string, keys: string[], force: boolean = false): ReportStatistics {
+    app.debug(`reportFleet(${endpoint.name}, ${reportType}, ${keys})...`)
+    var reportStatistics: ReportStatistics = makeReportStatistics();
+
+    selectFleet(endpoint, keys).forEach(([ member, vessel ]) => {
+      let group: Vessel = endpoint.fleet[member.key];
+      let sentences: string[] | undefined;
+      let mapping: MappingResult;
+      let position: Position | undefined = undefined;
+      let sent: SendResult;
+
+      try {
+        if (reportType == 'position') {
+          if ((!force) && (group.adaptive) && (!group.adaptive.isDue(vessel, member.aisClass, Date.now()))) return;
+          mapping = mapPosition(vessel);
+          reportMappingIssues(vessel, mapping);
+          if (!mapping.options) throw new Error('no valid position');
+          if ((group.changeFilter) && (!group.changeFilter.acceptsPosition(vessel.mmsi, { latitude: <number>mapping.options.lat, longitude: <number>mapping.options.lon }, Date.now(), force))) {
+            if (group.adaptive) group.adaptive.record(vessel, Date.now());
+            reportStatistics.fleet.suppressed++;
+            return;
+          }
+          sentences = encodePosition(vessel, member.aisClass, group, mapping.options, true);
+          position = { latitude: <number>mapping.options.lat, longitude: <number>mapping.options.lon };
+        } else {
+          if (!(sentences = encodeStatic(vessel, member.aisClass))) return;
+          if ((group.changeFilter) && (!group.changeFilter.acceptsStatic(vessel.mmsi, sentences, Date.now(), force))) {
+            reportStatistics.fleet.suppressed++;
+            return;
+          }
+        }
+        sent = sendReport(endpoint, { time: Date.now(), type: reportType, mmsi: vessel.mmsi, self: true, fleet: true, sentences: sentences });
+        if ((sent.accepted) && (position) && (group.adaptive)) group.adaptive.record(vessel, Date.now());
+        if ((sent.accepted) && (group.changeFilter)) {
+          if (position) {
+            group.changeFilter.recordPosition(vessel.mmsi, position, Date.now());
+          } else {
+            group.changeFilter.recordStatic(vessel.mmsi, sentences, Date.now());
+          }
+        }
+        countReport(reportStatistics, 'fleet', sent.bytes);
+      } catch(e: any) {
+        app.debug(`error sending AIS ${reportType} report for fleet vessel '${vessel.mmsi}' to endpoint '${endpoint.name}' (${e.message})`)
+        reportStatistics.fleet.errors++;
+        endpoint.health.recordEncodeFailure(vessel.mmsi, 'fleet', `${reportType}: ${e.message}`, Date.now());
+      }
+    });
+    return(reportStatistics);
+  }
+
+  /**
+   * Get the non-vessel targets in a target group which are candidates
+   * for reporting to an endpoint: those with a current position that
+   * passes any geographic filter configured for the group. Targets
+   * which lack an 'mmsi' property take their MMSI from their context
+   * identifier.
+   *
+   * @param endpoint - Endpoint to be processed.
+   * @param group - target group ('atons', 'aircraft' or 'basestations').
+   * @returns - array of Signal K target objects.
+   */
+  function selectTargets(endpoint: Endpoint, group: string): any[] {
+    var ownPosition: Position | undefined = app.getSelfPath('navigation.position.value');
+    var target: Vessel = endpoint.targets[group];
+
+    return(Object.entries(app.getPath(TARGET_CONTEXTS[group]) || {})
+    .map(([ id, object ]: [ string, any ]) => ((object.mmsi)?object:Object.assign({ mmsi: _.get(id.match(/mmsi:(\d{9})$/), '[1]', undefined) }, object)))
+    .filter((object: any) => (object.mmsi) && (_.get(object, 'navigation.position.timestamp', false)) && ((new Date(object.navigation.position.timestamp)).getTime() > (Date.now() - (target.expiryInterval * 60000))))
+    .filter((object: any) => ((!target.geoFilter) || (target.geoFilter.accepts(object.navigation.position.value, ownPosition)))));
+  }
+
+  /**
+   * Generate position reports for the members of a non-vessel target
+   * group and forward these reports for output. Aids to navigation
+   * are reported using message type 21, SAR aircraft using type 9 and
+   * base stations using type 4.
+   *
+   * @param endpoint - Endpoint to be processed.
+   * @param group - target group ('atons', 'aircraft' or 'basestations').
+   * @param force - true to report targets even if they have not moved.
+   * @returns - ReportStatistics for the transmission.
+   */
+  function reportTargets(endpoint: Endpoint, group: string, force: boolean = false): ReportStatistics {
+    app.debug(`reportTargets(${endpoint.name}, ${group})...`)
+    var reportStatistics: ReportStatistics = makeReportStatistics();
+    var mapping: MappingResult<any>;
+    var changeFilter: ChangeFilter | undefined = endpoint.targets[group].changeFilter;
+    var sentences: string[];
+    var sent: SendResult;
+
+    selectTargets(endpoint, group).forEach((target: any) => {
+      try {
+        mapping = mapTarget(target, group);
+        reportMappingIssues(target, mapping);
+        if (!mapping.options) throw new Error('no valid position');
+        if ((changeFilter) && (!changeFilter.acceptsPosition(target.mmsi, { latitude: mapping.options.lat, longitude: mapping.options.lon }, Date.now(), force))) {
+          reportStatistics.others.suppressed++;
+          return;
+        }
+        sentences = encodeTarget(group, mapping.options);
+        sent = sendReport(endpoint, { time: Date.now(), type: 'position', mmsi: target.mmsi, self: false, sentences: sentences });
+        if ((sent.accepted) && (changeFilter)) changeFilter.recordPosition(target.mmsi, { latitude: mapping.options.lat, longitude: mapping.options.lon }, Date.now());
+        countReport(reportStatistics, 'others', sent.bytes);
+      } catch(e: any) {
+        app.debug(`error sending AIS report for ${group} target '${target.mmsi}' to endpoint '${endpoint.name}' (${e.message})`)
+        reportStatistics.others.errors++;
+        endpoint.health.recordEncodeFailure(target.mmsi, 'others', `${group}: ${e.message}`, Date.now());
+      }
+    });
+    return(reportStatistics);
+  }
+
+  /**
+   * Encode a position report for a vessel. Class B vessels in a group
+   * configured for extended reports use message type 19; otherwise
+   * class A vessels use type 1 and class B vessels type 18.
+   *
+   * @param vessel - Signal K vessel object.
+   * @param aisClass - AIS class of the vessel.
+   * @param group - Vessel group to which the vessel belongs.
+   * @param aisProperties - position fields mapped from the vessel.
+   * @param own - true to encode an own-vessel report ('self' or a fleet
+   * vessel).
+   * @returns - NMEA sentences which make up the report.
+   */
+  function encodePosition(vessel: any, aisClass: string, group: Vessel, aisProperties: AisEncodeOptions, own: boolean): string[] {
+    var msg: any;
+
+    if ((aisClass == 'B') && (group.extendedClassB)) {
+      return(encodeExtendedClassBReport(<ExtendedClassBOptions>Object.assign({}, mapStatic(vessel).options, aisProperties)));
+    }
+    aisProperties['aistype'] = (aisClass == 'A')?1:18;
+    aisProperties['own'] = (own)?1:0
+    aisProperties['repeat'] = 3
+    msg = new AisEncode(aisProperties);
+    if ((!msg) || (!msg.valid)) throw new Error('AIS encode failed');
+    return([ msg.nmea ]);
+  }
+
+  /**
+   * Encode a static data report for a vessel: message type 5 for a
+   * class A vessel and the A and B parts of message type 24 for a class
+   * B vessel.
+   *
+   * @param vessel - Signal K vessel object.
+   * @param aisClass - AIS class of the vessel.
+   * @returns - NMEA sentences which make up the report, or undefined if
+   * the vessel's class is not reported.
+   */
+  function encodeStatic(vessel: any, aisClass: string): string[] | undefined {
+    var aisProperties: any = mapStatic(vessel).options;
+    var msg: any, msgB: any;
+
+    aisProperties['repeat'] = 3;
+    switch (aisClass) {
+      case 'A':
+        aisProperties['aistype'] = 5;
+        msg = new AisEncode(aisProperties);
+        if ((!msg) || (!msg.valid)) throw new Error('AIS encode failed');
+        return([ msg.nmea ]);
+      case 'B':
+        aisProperties['aistype'] = 24;
+        aisProperties['part'] = 0;
+        msg = new AisEncode(aisProperties);
+        if ((!msg) || (!msg.valid)) throw new Error('AIS Part A encode failed');
+        aisProperties['part'] = 1;
+        msgB = new AisEncode(aisProperties);
+        if ((!msgB) || (!msgB.valid)) throw new Error('AIS Part B encode failed');
+        return([ msg.nmea, msgB.nmea ]);
+      default:
+        return(undefined);
+    }
+  }
+
+  /**
+   * Map a non-vessel target onto the fields of the AIS message used to
+   * report its group.
+   */
+  function mapTarget(target: any, group: string): MappingResult<any> {
+    switch (group) {
+      case 'atons': return(mapAidToNavigation(target));
+      case 'aircraft': return(mapAircraft(target));
+      default: return(mapBaseStation(target, Date.now()));
+    }
+  }
+
+  /**
+   * Encode a position report for a non-vessel target from the fields
+   * produced by mapTarget().
+   */
+  function encodeTarget(group: string, options: any): string[] {
+    switch (group) {
+      case 'atons': return(encodeAidToNavigationReport(options));
+      case 'aircraft': return(encodeSarAircraftReport(options));
+      default: return(encodeBaseStationReport(options));
+    }
+  }
+
+  /**
+   * Handle a sentence received by the server, relaying any AIS message
+   * which it completes to endpoints operating in passthrough mode.
+   * Messages concerning the host vessel or a fleet vessel identified by
+   * MMSI are not relayed since these are always reported from the
+   * Signal K data model.
+   *
+   * @param sentence - NMEA 0183 sentence emitted by the server.
+   */
+  function relayNmea0183(sentence: string) {
+    var now: number = Date.now();
+    var message: AisMessage | undefined;
+    var vessel: any;
+
+    if ((!pluginConfiguration) || (typeof sentence !== 'string')) return;
+    if ((!(message = aisAssembler.accept(sentence, now))) || (message.mmsi == pluginConfiguration.myMMSI) || (pluginConfiguration.fleet.some((member) => (member.mmsi == (<AisMessage>message).mmsi)))) return;
+    vessel = getRelayedVessel(message);
+    pluginConfiguration.endpoints.filter((endpoint) => (endpoint.relay)).forEach((endpoint) => {
+      try {
+        relayMessage(endpoint, <AisMessage>message, vessel, now);
+      } catch(e: any) {
+        app.debug(`error relaying AIS message to endpoint '${endpoint.name}' (${e.message})`);
+      }
+    });
+  }
+
+  /**
+   * Make the vessel against which the 'otherVessels' rules of each
+   * endpoint are checked before a received message is relayed. The
+   * ship type and AIS class of a vessel known to the Signal K data
+   * model are taken from the model; failing that the AIS class is the
+   * one implied by the message type.
+   *
+   * @param message - AisMessage to be relayed.
+   * @returns - Signal K style vessel object.
+   */
+  function getRelayedVessel(message: AisMessage): any {
+    var vessel: any = Object.values(app.getPath('vessels') || {}).find((vessel: any) => (vessel.mmsi == message.mmsi));
+
+    return({
+      mmsi: message.mmsi,
+      design: { aisShipType: { value: { id: _.get(vessel, 'design.aisShipType.value.id', undefined) } } },
+      sensors: { ais: { class: { value: _.get(vessel, 'sensors.ais.class.value', message.aisClass) } } }
+    });
+  }
+
+  /**
+   * Relay a received AIS message to an endpoint unless the endpoint is
+   * inactive, its budget excludes other vessels, the endpoint's
+   * 'otherVessels' rules exclude the vessel or the vessel has been
+   * relayed a message of the same type within the endpoint's position
+   * or static data update interval for other vessels.
+   *
+   * @param endpoint - Endpoint operating in passthrough mode.
+   * @param message - AisMessage to be relayed.
+   * @param vessel - vessel to check against the endpoint's rules.
+   * @param now - current time in milliseconds.
+   */
+  function relayMessage(endpoint: Endpoint, message: AisMessage, vessel: any, now: number) {
+    var profile: Profile = endpoint.otherVessels.profiles.getActive();
+    var interval: number = (message.static)?profile.staticUpdateInterval:profile.positionUpdateInterval;
+    var reportStatistics: ReportStatistics = makeReportStatistics();
+
+    if ((endpoint.paused) || (now < endpoint.schedule.startAt)) return;
+    if ((endpoint.budget) && (endpoint.budget.level >= THROTTLE.DROP_OTHERS)) return;
+    if ((endpoint.otherVessels.rules) && (!endpoint.otherVessels.rules.includes(vessel, false))) return;
+    if (!(<RelayFilter>endpoint.relay).claim(message, interval, now)) return;
+    countReport(reportStatistics, 'others', sendReport(endpoint, { time: now, type: 'relayed', mmsi: message.mmsi, self: false, sentences: message.sentences }).bytes);
+    recordStatistics(endpoint, 'relayed', reportStatistics);
+  }
+
+  /**
+   * Add a report to ReportStatistics if any bytes were transmitted.
+   *
+   * @param reportStatistics - ReportStatistics to be updated.
+   * @param bucket - 'self', 'fleet' or 'others'.
+   * @param bytes - number of bytes transmitted.
+   */
+  function countReport(reportStatistics: ReportStatistics, bucket: StatisticsBucket, bytes: number) {
+    if (bytes == 0) return;
+    reportStatistics[bucket].reports++;
+    reportStatistics[bucket].bytes += bytes;
+  }
+
+  /**
+   * Get the statistics bucket in which a report is counted.
+   */
+  function getBucket(report: QueuedReport): StatisticsBucket {
+    return((report.fleet)?'fleet':((report.self)?'self':'others'));
+  }
+
+  /**
+   * Deliver the sentences which make up a report to an endpoint,
+   * framed as the endpoint requires, and record the report in the
+   * endpoint's traffic log.
+   *
+   * If the endpoint has a store-and-forward queue and its link is down
+   * the report is queued rather than sent. A report which is sent but
+   * subsequently fails remains counted as sent, is counted as an error
+   * and, if the endpoint has a queue, is queued. Relayed reports are never
+   * queued. Replayed reports are framed
+   * with a tag block carrying the report's original time.
+   *
+   * A report which would exceed the endpoint's data budget is not sent;
+   * a replayed report is returned to the queue.
+   *
+   * @param endpoint - Endpoint to be reported to.
+   * @param report - QueuedReport to be delivered.
+   * @param replay - true if the report is being replayed from the queue.
+   * @returns - SendResult giving the number of bytes accepted for
+   * transmission and whether the report was sent or queued.
+   */
+  function sendReport(endpoint: Endpoint, report: QueuedReport, replay: boolean = false): SendResult {
+    var bytes: number = 0;
+    var failed: boolean = false;
+    var lines: string[];
+
+    if ((endpoint.queue) && (!isLinkUp(endpoint))) {
+      if (report.type == 'relayed') return({ bytes: 0, accepted: false });
+      endpoint.queue.push(report, Date.now());
+      return({ bytes: 0, accepted: true });
+    }
+    lines = endpoint.framer.frame(report.sentences, report.self, report.time, replay);
+    if (!isWithinBudget(endpoint, lines.join('').length)) {
+      app.debug(`endpoint '${endpoint.name}': ${report.type} report for vessel '${report.mmsi}' not sent (data budget exhausted)`);
+      if ((replay) && (endpoint.queue)) endpoint.queue.push(report, Date.now());
+      return({ bytes: 0, accepted: false });
+    }
+    lines.forEach((line) => {
+      bytes += sendReportMsg(line, endpoint, (e: any) => {
+        if (failed) return;
+        failed = true;
+        app.debug(`endpoint '${endpoint.name}': ${report.type} report for vessel '${report.mmsi}' undelivered (${e.message})`);
+        let failure: ReportStatistics = makeReportStatistics();
+        failure[getBucket(report)] = { reports: 0, bytes: 0, suppressed: 0, errors: 1 };
+        recordStatistics(endpoint, report.type, failure);
+        if ((endpoint.queue) && (report.type != 'relayed')) endpoint.queue.push(report, Date.now());
+      });
+    });
+    if ((bytes > 0) && (endpoint.budget)) endpoint.budget.spend(bytes);
+    if (bytes > 0) recordTraffic(endpoint, report, lines);
+    return({ bytes: bytes, accepted: (bytes > 0) });
+  }
+
+  /**
+   * Check whether a report can be sent to an endpoint without
+   * exceeding the endpoint's data budget, counting bytes sent since
+   * its statistics were last recorded.
+   *
+   * @param endpoint - Endpoint to be reported to.
+   * @param bytes - size of the report in bytes.
+   * @returns - true if the report can be sent.
+   */
+  function isWithinBudget(endpoint: Endpoint, bytes: number): boolean {
+    if ((!endpoint.budget) || (!statisticsStore)) return(true);
+    return(endpoint.budget.admits(statisticsStore.getUsage(endpoint.name, Date.now()), bytes));
+  }
+
+  /**
+   * Add a report accepted for transmission to an endpoint's traffic log
+   * and pass it, decoded, to any clients of the event stream.
+   *
+   * @param endpoint - Endpoint which was reported to.
+   * @param report - QueuedReport which was sent.
+   * @param lines - lines sent, as framed for the endpoint.
+   */
+  function recordTraffic(endpoint: Endpoint, report: QueuedReport, lines: string[]) {
+    var entry: TrafficEntry = { time: (new Date()).toISOString(), type: report.type, mmsi: report.mmsi, lines: lines };
+
+    endpoint.traffic.record(entry);
+    if (eventStreams.size > 0) sendEvent('traffic', Object.assign({ endpoint: endpoint.name }, entry, { decoded: decodeReport(lines) }));
+  }
+
+  /**
+   * Send a server-sent event to every client of the event stream.
+   *
+   * @param event - event name ('status' or 'traffic').
+   * @param data - event data (sent as JSON).
+   */
+  function sendEvent(event: string, data: any) {
+    var message: string = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+    eventStreams.forEach((res) => res.write(message));
+  }
+
+  /**
+   * Send a backlog of queued reports to an endpoint whose link has
+   * been restored. A limited number of reports is sent on each call.
+   *
+   * @param endpoint - Endpoint with a non-empty queue.
+   * @param now - current time in milliseconds.
+   */
+  function replayQueue(endpoint: Endpoint, now: number) {
+    var reportStatistics: { [type: string]: ReportStatistics } = {
+      position: makeReportStatistics(),
+      static: makeReportStatistics()
+    };
+
+    (<OutboundQueue>endpoint.queue).take(REPLAY_BATCH_SIZE, now).forEach((report) => {
+      countReport(reportStatistics[report.type], getBucket(report), sendReport(endpoint, report, true).bytes);
+    });
+    Object.keys(reportStatistics).forEach((type) => recordStatistics(endpoint, type, reportStatistics[type]));
+    pluginStatus.setStatus(`replaying queued reports to endpoint '${endpoint.name}' (${(<OutboundQueue>endpoint.queue).length} remaining)`);
+  }
+
+  /**
+   * Check whether an endpoint's link is up: the transport must be
+   * available and any Signal K link state path configured for the
+   * endpoint's queue must indicate that the link is up.
+   */
+  function isLinkUp(endpoint: Endpoint): boolean {
+    var queue: OutboundQueue | undefined = endpoint.queue;
+
+    if ((queue) && (queue.linkPath) && (!queue.isLinkUp(app.getSelfPath(`${queue.linkPath}.value`)))) return(false);
+    return((endpoint.transport !== undefined) && (endpoint.transport.isAvailable()));
+  }
+
+  /**
+   * Transmits a message string over the endpoint's transport.
    * 
-   * @param socket - Socket to be used for report transmission.
    * @param msg - message string to be transmitted.
    * @param endpoint - Endpoint specifying the transmission target.
-   * @returns - number of bytes transmitted.
+   * @param onError - function called if delivery subsequently fails.
+   * @returns - number of bytes accepted for transmission.
    */
-  function sendReportMsg(socket: Socket, msg: string, endpoint: Endpoint): number {
-    app.debug(`sendReportMsg(socket, ${msg}, ${endpoint.name})...`);
-    socket.send(msg + '\n', 0, msg.length + 1, endpoint.port, endpoint.ipAddress, (e: any) => { });
-    return(msg.length + 1);
+  function sendReportMsg(msg: string, endpoint: Endpoint, onError?: (e: any) => void): number {
+    app.debug(`sendReportMsg(${msg}, ${endpoint.name})...`);
+    return((endpoint.transport)?endpoint.transport.send(msg, onError):0);
   }
 
-  function radsToDeg(radians: number): number {
-    return(radians * 180 / Math.PI)
+  /**
+   * Log any problems encountered when mapping a vessel's Signal K
+   * data onto AIS message fields.
+   *
+   * @param vessel - Signal K vessel object.
+   * @param mapping - MappingResult for the vessel.
+   */
+  function reportMappingIssues(vessel: any, mapping: MappingResult) {
+    mapping.issues.forEach((issue) => {
+      app.debug(`vessel '${vessel.mmsi}': ${issue.action} '${issue.field}' from '${issue.path}' value ${JSON.stringify(issue.value)} (${issue.reason})`);
+    });
   }
-  
-  function mpsToKn(mps: number): number {
-    return(1.9438444924574 * mps)
+
+  /**
+   * Run changes to the endpoint definitions one at a time, so that
+   * each is made from the configuration saved by the one before. Each
+   * change calls 'done' when it has finished.
+   *
+   * @param change - function making the change.
+   */
+  function queueEndpointChange(change: (done: () => void) => void) {
+    var next = () => {
+      endpointChanges.shift();
+      if (endpointChanges.length > 0) endpointChanges[0](next);
+    };
+
+    endpointChanges.push(change);
+    if (endpointChanges.length == 1) change(next);
   }
 
-  function decodeSMI(label: string): number {
-    switch (label) {
-      case 'not available': return(0);
-      case 'not engaged': return(1);
-      case 'engaged': return(2);
-      default: return(0);
-    }
+  /**
+   * Get the status of each endpoint: its connection, health, active
+   * interval profiles and the resources consumed by reporting to it.
+   *
+   * @returns - StatusResponse for each endpoint keyed by endpoint name.
+   */
+  function getStatus(): Dictionary<StatusResponse> {
+    return((pluginConfiguration.endpoints || []).reduce((a: Dictionary<StatusResponse>, endpoint: Endpoint) => {
+      let hours: number = (endpoint.statistics.started)?(Date.now() - endpoint.statistics.started) / 3600000:1;
+      a[endpoint.name] = {
+        ipAddress: endpoint.ipAddress,
+        port: endpoint.port,
+        paused: endpoint.paused,
+        dryRun: endpoint.dryRun,
+        connection: (endpoint.transport)?endpoint.transport.getStatus():undefined,
+        health: endpoint.health.getStatus((endpoint.transport)?endpoint.transport.delivery.getStatus():undefined),
+        profiles: getVesselGroups(endpoint).reduce((a: Dictionary<ProfileStatus>, [ name, group ]) => { a[name] = group.profiles.getStatus(); return(a); }, {}),
+        vesselsFiltered: endpoint.vesselsFiltered,
+        rules: (endpoint.otherVessels.rules)?endpoint.otherVessels.rules.getStatus():undefined,
+        queue: (endpoint.queue)?endpoint.queue.getStatus():undefined,
+        budget: ((endpoint.budget) && (statisticsStore))?endpoint.budget.getStatus(statisticsStore.getUsage(endpoint.name, Date.now()), Date.now()):undefined,
+        started: (endpoint.statistics.started)?(new Date(endpoint.statistics.started)).toISOString():'never',
+        totalBytesTransmitted: endpoint.statistics.totalBytes,
+        positionSelfBytesPerHour: Math.floor(endpoint.statistics.position.self.bytes / hours),
+        positionOthersBytesPerHour: Math.floor(endpoint.statistics.position.others.bytes / hours),
+        staticSelfBytesPerHour: Math.floor(endpoint.statistics.static.self.bytes / hours),
+        staticOthersBytesPerHour: Math.floor(endpoint.statistics.static.others.bytes / hours),
+        positionFleetBytesPerHour: Math.floor(endpoint.statistics.position.fleet.bytes / hours),
+        staticFleetBytesPerHour: Math.floor(endpoint.statistics.static.fleet.bytes / hours),
+        suppressed: {
+          position: { self: endpoint.statistics.position.self.suppressed, others: endpoint.statistics.position.others.suppressed, fleet: endpoint.statistics.position.fleet.suppressed },
+          static: { self: endpoint.statistics.static.self.suppressed, others: endpoint.statistics.static.others.suppressed, fleet: endpoint.statistics.static.fleet.suppressed }
+        },
+        passthrough: (endpoint.relay !== undefined),
+        relayedBytesPerHour: Math.floor(endpoint.statistics.relayed.others.bytes / hours)
+      };
+      return(a);
+    }, {}));
   }
 
   function handleRoutes(req: any, res: any) {
@@ -393,33 +1824,430 @@ module.exports = function(app: any) {
     try {
       switch (req.path.slice(0, (req.path.indexOf('/', 1) == -1)?undefined:req.path.indexOf('/', 1))) {
         case '/status':
-          const status = (pluginConfiguration.endpoints || []).reduce((a: Dictionary<StatusResponse>, endpoint: Endpoint) => {
-            let hours: number = (endpoint.statistics.started)?(Date.now() - endpoint.statistics.started) / 3600000:1;
-            a[endpoint.name] = {
-              ipAddress: endpoint.ipAddress,
-              port: endpoint.port,
-              started: (endpoint.statistics.started)?(new Date(endpoint.statistics.started)).toISOString():'never',
-              totalBytesTransmitted: endpoint.statistics.totalBytes,
-              positionSelfBytesPerHour: Math.floor(endpoint.statistics.position.self.bytes / hours),
-              positionOthersBytesPerHour: Math.floor(endpoint.statistics.position.others.bytes / hours),
-              staticSelfBytesPerHour: Math.floor(endpoint.statistics.static.self.bytes / hours),
-              staticOthersBytesPerHour: Math.floor(endpoint.statistics.static.others.bytes / hours)
-            };
+          if (req.path == '/status/history') {
+            expressSend(res, 200, getStatusHistory(req.query), req.path);
+            break;
+          }
+          expressSend(res, 200, getStatus(), req.path);
+          break;
+        case '/events':
+          if (!pluginConfiguration) throw new Error('503');
+          res.status(200).set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Connection': 'keep-alive' });
+          res.flushHeaders();
+          eventStreams.add(res);
+          req.on('close', () => eventStreams.delete(res));
+          res.write(`event: status\ndata: ${JSON.stringify(getStatus())}\n\n`);
+          break;
+        case '/traffic':
+          if (!pluginConfiguration) throw new Error('503');
+          const limit: number = (req.query.limit !== undefined)?Number(req.query.limit):DEFAULT_ENDPOINT_OPTIONS.TRAFFIC_LOG_SIZE;
+          if ((!Number.isInteger(limit)) || (limit < 1)) throw new Error('400: \'limit\' must be a positive integer');
+          const traffic = ((req.params.name)?[getEndpoint(req.params.name)]:pluginConfiguration.endpoints).reduce((a: Dictionary<TrafficReport[]>, endpoint: Endpoint) => {
+            a[endpoint.name] = endpoint.traffic.get(limit).map((entry) => Object.assign({}, entry, { decoded: decodeReport(entry.lines) }));
+            return(a);
+          }, {});
+          expressSend(res, 200, traffic, req.path);
+          break;
+        case '/metrics':
+          if (!pluginConfiguration) throw new Error('503');
+          app.debug(`sending metrics for ${pluginConfiguration.endpoints.length} endpoints...`);
+          res.status(200).type(OPENMETRICS_CONTENT_TYPE).send(getMetrics(Date.now()).toString());
+          break;
+        case '/preview':
+          if (!pluginConfiguration) throw new Error('503');
+          const preview = ((req.params.name)?[getEndpoint(req.params.name)]:pluginConfiguration.endpoints).reduce((a: Dictionary<PreviewReport[]>, endpoint: Endpoint) => {
+            a[endpoint.name] = getPreview(endpoint, Date.now());
             return(a);
           }, {});
-          expressSend(res, 200, status, req.path);
+          expressSend(res, 200, preview, req.path);
+          break;
+        case '/config':
+          if (req.path != '/config/diagnostics') throw new Error('404');
+          expressSend(res, 200, { valid: !configDiagnostics.some((d) => (d.severity == 'error')), diagnostics: configDiagnostics }, req.path);
+          break;
+        case '/static':
+          if (!pluginConfiguration) throw new Error('503');
+          const mmsi: string = req.params.mmsi || pluginConfiguration.myMMSI;
+          const member: [ FleetMember, any ] | undefined = findFleet(app.getPath('vessels')).find(([ member, vessel ]) => (member.apply(vessel).mmsi == mmsi));
+          const vessel: any = (member)?member[0].apply(member[1]):Object.values(app.getPath('vessels')).find((vessel: any) => (vessel.mmsi == mmsi));
+          if (!vessel) throw new Error('404');
+          expressSend(res, 200, new StaticData(vessel), req.path);
+          break;
+        case '/endpoints':
+          if (!pluginConfiguration) throw new Error('503');
+          handleEndpointRoutes(req, res);
+          break;
+        case '/report':
+          if (!pluginConfiguration) throw new Error('503');
+          if (!REPORT_TYPES.includes(req.params.type)) throw new Error('404');
+          const report = ((req.params.name)?[getEndpoint(req.params.name)]:pluginConfiguration.endpoints.filter((e) => (!e.paused))).reduce((a: Dictionary<ReportStatistics>, endpoint: Endpoint) => {
+            a[endpoint.name] = forceReport(endpoint, req.params.type);
+            return(a);
+          }, {});
+          expressSend(res, 200, report, req.path);
           break;
         default:
           break;
       }
     } catch(e: any) {
+      expressSendError(res, e, req.path);
+    }
+
+    /**
+     * Get the statistics history for the endpoint named by the
+     * 'endpoint' query parameter or, if this is absent, for all
+     * endpoints. 'from' and 'to' query parameters bound the period of
+     * interest (by default the last 24 hours) and the 'resolution'
+     * query parameter selects 'hour' (the default) or 'day' buckets.
+     */
+    function getStatusHistory(query: any): Dictionary<HistoryEntry[]> {
+      var to: number = (query.to)?Date.parse(query.to):Date.now();
+      var from: number = (query.from)?Date.parse(query.from):(to - (24 * 3600000));
+      var resolution: string = query.resolution || 'hour';
+      var names: string[];
+
+      if (!statisticsStore) throw new Error('503');
+      if ((isNaN(from)) || (isNaN(to)) || (from > to)) throw new Error('400: \'from\' and \'to\' must be ISO 8601 times with \'from\' before \'to\'');
+      names = (query.endpoint)?[query.endpoint]:statisticsStore.getNames();
+      return(names.reduce((a: Dictionary<HistoryEntry[]>, name: string) => {
+        let series: HistoryEntry[] | undefined;
+        try {
+          series = (<StatisticsStore>statisticsStore).getSeries(name, resolution, from, to);
+        } catch(e: any) {
+          throw new Error(`400: ${e.message}`);
+        }
+        if (!series) throw new Error('404');
+        a[name] = series;
+        return(a);
+      }, {}));
+    }
+
+    /**
+     * Get counters of the reports made to each endpoint and gauges of
+     * the vessels known to each endpoint and of the reporting intervals
+     * currently in use. Counters start from the beginning of the
+     * endpoint's persistent statistics.
+     */
+    function getMetrics(now: number): OpenMetrics {
+      var metrics: OpenMetrics = new OpenMetrics();
+
+      metrics.addFamily('ais_reporter_reports', 'counter', 'AIS reports sent to an endpoint.');
+      metrics.addFamily('ais_reporter_sent_bytes', 'counter', 'Bytes of AIS reports sent to an endpoint.', 'bytes');
+      metrics.addFamily('ais_reporter_suppressed', 'counter', 'AIS reports not sent because nothing had changed.');
+      metrics.addFamily('ais_reporter_errors', 'counter', 'AIS reports which could not be encoded or delivered.');
+      metrics.addFamily('ais_reporter_vessels_tracked', 'gauge', 'Vessels with a position which is current for an endpoint.');
+      metrics.addFamily('ais_reporter_vessels_expired', 'gauge', 'Vessels whose position is older than an endpoint\'s expiry interval.');
+      metrics.addFamily('ais_reporter_update_interval_seconds', 'gauge', 'Reporting interval in use for a vessel group (0 if disabled).', 'seconds');
+      pluginConfiguration.endpoints.forEach((endpoint) => {
+        let vessels: Dictionary<Dictionary<number>> = { tracked: { self: 0, others: 0, fleet: 0 }, expired: { self: 0, others: 0, fleet: 0 } };
+        let fleet: [ FleetMember, any ][] = findFleet(app.getPath('vessels'));
+
+        (<StatisticsReport[]>[ 'position', 'static', 'relayed' ]).forEach((report) => {
+          STATISTICS_BUCKETS.forEach((group) => {
+            let counts: ReportCounts = endpoint.statistics[report][group];
+            let labels: Dictionary<string> = { endpoint: endpoint.name, report: report, vessels: group };
+
+            if ((report == 'relayed') && (group != 'others')) return;
+            metrics.addSample('ais_reporter_reports', labels, counts.reports, endpoint.statistics.started);
+            metrics.addSample('ais_reporter_sent_bytes', labels, counts.bytes, endpoint.statistics.started);
+            metrics.addSample('ais_reporter_suppressed', labels, counts.suppressed, endpoint.statistics.started);
+            metrics.addSample('ais_reporter_errors', labels, counts.errors, endpoint.statistics.started);
+          });
+        });
+        Object.values(app.getPath('vessels') || {}).forEach((vessel: any) => {
+          let member: [ FleetMember, any ] | undefined = fleet.find(([ member, v ]) => (v === vessel));
+          let bucket: StatisticsBucket = (member)?'fleet':((vessel.mmsi == pluginConfiguration.myMMSI)?'self':'others');
+          let group: Vessel = (member)?endpoint.fleet[member[0].key]:((bucket == 'self')?endpoint.myVessel:endpoint.otherVessels);
+          let timestamp: string | undefined = _.get(vessel, 'navigation.position.timestamp', undefined);
+
+          if (((!vessel.mmsi) && (!member)) || (!timestamp)) return;
+          vessels[((new Date(timestamp)).getTime() > (now - (group.expiryInterval * 60000)))?'tracked':'expired'][bucket]++;
+        });
+        [ 'tracked', 'expired' ].forEach((state) => {
+          STATISTICS_BUCKETS.forEach((group) => {
+            metrics.addSample(`ais_reporter_vessels_${state}`, { endpoint: endpoint.name, vessels: group }, vessels[state][group]);
+          });
+        });
+        getVesselGroups(endpoint).forEach(([ name, group ]) => {
+          let profile: Profile = group.profiles.getActive();
+
+          metrics.addSample('ais_reporter_update_interval_seconds', { endpoint: endpoint.name, group: name, report: 'position', profile: profile.name }, profile.positionUpdateInterval);
+          metrics.addSample('ais_reporter_update_interval_seconds', { endpoint: endpoint.name, group: name, report: 'static', profile: profile.name }, profile.staticUpdateInterval);
+        });
+      });
+      return(metrics);
+    }
+
+    /**
+     * Get the reports which would next be made to an endpoint, each
+     * framed as it would be sent and decoded back into AIS message
+     * fields. Reports are built from current Signal K data using the
+     * endpoint's vessel and fleet selection, privacy settings and
+     * framing, but without regard to adaptive schedules, change filters
+     * or data budgets, and nothing is sent.
+     */
+    function getPreview(endpoint: Endpoint, now: number): PreviewReport[] {
+      var retval: PreviewReport[] = [];
+      var synthesizeOthers: boolean = (!endpoint.relay);
+      var add = (type: string, group: string, mmsi: string, self: boolean, last: number, interval: number, encode: () => string[] | undefined) => {
+        let lines: string[];
+        let sentences: string[] | undefined;
+        let due: string = (new Date(Math.max(endpoint.schedule.startAt, last + (interval * 1000)))).toISOString();
+
+        if (interval === 0) return;
+        try {
+          if (!(sentences = encode())) return;
+          lines = endpoint.framer.frame(sentences, self, now);
+          retval.push({ type: type, group: group, mmsi: mmsi, due: due, lines: lines, decoded: decodeReport(lines), error: undefined });
+        } catch(e: any) {
+          retval.push({ type: type, group: group, mmsi: mmsi, due: due, lines: [], decoded: [], error: e.message });
+        }
+      };
+
+      selectVessels(endpoint, true, synthesizeOthers).forEach((vessel: any) => {
+        let isSelf: boolean = (vessel.mmsi == pluginConfiguration.myMMSI);
+        let group: Vessel = (isSelf)?endpoint.myVessel:endpoint.otherVessels;
+        let profile: Profile = group.profiles.getActive();
+        let aisClass: string = (isSelf)?pluginConfiguration.myAisClass:_.get(vessel, 'sensors.ais.class.value', DEFAULT_MY_AIS_CLASS);
+
+        add('position', (isSelf)?'myVessel':'otherVessels', vessel.mmsi, isSelf, endpoint.schedule.position[(isSelf)?'self':'others'], profile.positionUpdateInterval, () => {
+          let reported: any = ((isSelf) && (endpoint.myVessel.privacy))?endpoint.myVessel.privacy.apply(vessel, positionHistory, now):vessel;
+          let mapping: MappingResult;
+
+          if (!reported) throw new Error('withheld by privacy settings');
+          if (!(mapping = mapPosition(reported)).options) throw new Error('no valid position');
+          return(encodePosition(reported, aisClass, group, mapping.options, isSelf));
+        });
+        add('static', (isSelf)?'myVessel':'otherVessels', vessel.mmsi, isSelf, endpoint.schedule.static[(isSelf)?'self':'others'], profile.staticUpdateInterval, () => encodeStatic(vessel, aisClass));
+      });
+      selectFleet(endpoint, Object.keys(endpoint.fleet)).forEach(([ member, vessel ]) => {
+        let group: Vessel = endpoint.fleet[member.key];
+        let profile: Profile = group.profiles.getActive();
+
+        add('position', `fleet:${member.key}`, vessel.mmsi, true, endpoint.schedule.fleet[member.key].position, profile.positionUpdateInterval, () => {
+          let mapping: MappingResult = mapPosition(vessel);
+
+          if (!mapping.options) throw new Error('no valid position');
+          return(encodePosition(vessel, member.aisClass, group, mapping.options, true));
+        });
+        add('static', `fleet:${member.key}`, vessel.mmsi, true, endpoint.schedule.fleet[member.key].static, profile.staticUpdateInterval, () => encodeStatic(vessel, member.aisClass));
+      });
+      if (synthesizeOthers) Object.keys(endpoint.targets).forEach((group) => {
+        selectTargets(endpoint, group).forEach((target: any) => {
+          add('position', group, target.mmsi, false, endpoint.schedule.targets[group] || 0, endpoint.targets[group].profiles.getActive().positionUpdateInterval, () => {
+            let mapping: MappingResult<any> = mapTarget(target, group);
+
+            if (!mapping.options) throw new Error('no valid position');
+            return(encodeTarget(group, mapping.options));
+          });
+        });
+      });
+      return(retval);
+    }
+
+    /**
+     * Handle the '/endpoints' routes which list, add, update, delete,
+     * pause and resume endpoints. Changes other than pausing and
+     * resuming are saved to the plugin configuration before they are
+     * applied to the running plugin and an endpoint which is updated
+     * keeps its statistics.
+     */
+    function handleEndpointRoutes(req: any, res: any) {
+      var endpoint: Endpoint | undefined = (req.params.name)?getEndpoint(req.params.name):undefined;
+      var option: any;
+
+      switch (req.method) {
+        case 'GET':
+          expressSend(res, 200, (endpoint)?pluginOptions.endpoints[pluginConfiguration.endpoints.indexOf(endpoint)]:pluginOptions.endpoints, req.path);
+          break;
+        case 'POST':
+          option = checkEndpoint(req.body);
+          changeEndpoints(() => {
+            var replacement: Endpoint = makeEndpoint(option, undefined);
+            var transport: Transport = buildTransport(replacement);
+
+            return({
+              endpointOptions: pluginOptions.endpoints.concat([ option ]),
+              transport: transport,
+              apply: () => {
+                if (statisticsStore) statisticsStore.attach(replacement);
+                replacement.queue = makeQueue(replacement);
+                replacement.transport = transport;
+                pluginConfiguration.endpoints.push(replacement);
+                return({ code: 201, body: option });
+              }
+            });
+          });
+          break;
+        case 'PUT':
+          if (req.params.action) {
+            if (!ENDPOINT_ACTIONS.includes(req.params.action)) throw new Error('404');
+            if ((req.params.action == 'resume') && (!(<Endpoint>endpoint).transport)) throw new Error(`409: endpoint '${(<Endpoint>endpoint).name}' is disabled (see /plugins/${PLUGIN_ID}/config/diagnostics)`);
+            (<Endpoint>endpoint).paused = (req.params.action == 'pause');
+            pluginStatus.setStatus(`${req.params.action}d endpoint '${(<Endpoint>endpoint).name}'`);
+            updateDefaultStatus();
+            expressSend(res, 200, { name: (<Endpoint>endpoint).name, paused: (<Endpoint>endpoint).paused }, req.path);
+          } else {
+            option = checkEndpoint(req.body);
+            changeEndpoints(() => {
+              var index: number = pluginConfiguration.endpoints.indexOf(getEndpoint(req.params.name));
+              var replacement: Endpoint = makeEndpoint(option, pluginConfiguration.endpoints[index]);
+              var transport: Transport = buildTransport(replacement);
+
+              return({
+                endpointOptions: pluginOptions.endpoints.map((o: any, i: number) => ((i == index)?option:o)),
+                transport: transport,
+                apply: () => {
+                  let previous: Endpoint = getEndpoint(req.params.name);
+                  if (previous.transport) previous.transport.close();
+                  replacement.statistics = previous.statistics;
+                  replacement.traffic = previous.traffic;
+                  replacement.paused = previous.paused;
+                  if (statisticsStore) statisticsStore.attach(replacement);
+                  moveQueue(previous, replacement);
+                  replacement.queue = makeQueue(replacement);
+                  replacement.transport = transport;
+                  pluginConfiguration.endpoints[pluginConfiguration.endpoints.indexOf(previous)] = replacement;
+                  return({ code: 200, body: option });
+                }
+              });
+            });
+          }
+          break;
+        case 'DELETE':
+          changeEndpoints(() => {
+            var index: number = pluginConfiguration.endpoints.indexOf(getEndpoint(req.params.name));
+
+            return({
+              endpointOptions: pluginOptions.endpoints.filter((option: any, i: number) => (i != index)),
+              transport: undefined,
+              apply: () => {
+                let previous: Endpoint = getEndpoint(req.params.name);
+                if (previous.transport) previous.transport.close();
+                moveQueue(previous, undefined);
+                pluginConfiguration.endpoints.splice(pluginConfiguration.endpoints.indexOf(previous), 1);
+                return({ code: 200, body: null });
+              }
+            });
+          });
+          break;
+        default:
+          throw new Error('400');
+      }
+
+      /**
+       * Validate an endpoint definition supplied in a request body,
+       * rejecting definitions with errors and migrating any legacy
+       * property names.
+       */
+      function checkEndpoint(body: any): any {
+        var validation: ConfigValidation;
+        var errors: ConfigDiagnostic[];
+
+        if ((!body) || (typeof body !== 'object') || (Array.isArray(body))) throw new Error('400: request body must be an endpoint object');
+        validation = validateEndpoint(body, pluginOptions, DEFAULT_ENDPOINT_OPTIONS);
+        if ((errors = validation.diagnostics.filter((d) => (d.severity == 'error'))).length > 0) {
+          throw new Error(`400: ${errors.map((d) => (((d.path)?`${d.path}: `:'') + d.message)).join('; ')}`);
+        }
+        return(validation.configuration);
+      }
+
+      /**
+       * Make an Endpoint from a validated definition, rejecting names
+       * which would duplicate those of endpoints other than the one
+       * being replaced.
+       */
+      function makeEndpoint(option: any, replacing: Endpoint | undefined): Endpoint {
+        var retval: Endpoint;
+        var clash: Endpoint | undefined;
+
+        try {
+          retval = new Endpoint(option, pluginOptions, DEFAULT_ENDPOINT_OPTIONS);
+        } catch(e: any) {
+          throw new Error(`400: ${e.message}`);
+        }
+        if (pluginConfiguration.endpoints.some((e) => ((e !== replacing) && (e.name == retval.name)))) throw new Error(`409: endpoint '${retval.name}' already exists`);
+        if ((clash = pluginConfiguration.endpoints.find((e) => ((e !== replacing) && (e.key == retval.key))))) throw new Error(`409: endpoint name '${retval.name}' clashes with '${clash.name}' (both are stored as '${retval.key}')`);
+        return(retval);
+      }
+
+      /**
+       * Make the transport for a new or updated endpoint, rejecting a
+       * definition whose transport cannot be made (for example because
+       * a TLS certificate cannot be read).
+       */
+      function buildTransport(endpoint: Endpoint): Transport {
+        try {
+          return(makeTransport(endpoint));
+        } catch(e: any) {
+          throw new Error(`400: ${e.message}`);
+        }
+      }
+
+      /**
+       * Change the endpoint definitions. Once any earlier change has
+       * finished, 'prepare' looks up the endpoint concerned and makes
+       * the new definitions, which are saved to the plugin
+       * configuration; once saved the change is applied to the
+       * running plugin and the request is answered. Errors answer the
+       * request with the corresponding status.
+       */
+      function changeEndpoints(prepare: () => EndpointChange) {
+        queueEndpointChange((done: () => void) => {
+          var change: EndpointChange;
+
+          try {
+            change = prepare();
+          } catch(e: any) {
+            expressSendError(res, e, req.path);
+            done();
+            return;
+          }
+          app.savePluginOptions(Object.assign({}, pluginOptions, { endpoints: change.endpointOptions }), (e: any) => {
+            var result: { code: number, body: object | null };
+
+            if (e) {
+              app.debug(`error saving plugin options (${e.message})`);
+              if (change.transport) change.transport.close();
+              expressSend(res, 500, null, req.path);
+            } else {
+              pluginOptions = Object.assign({}, pluginOptions, { endpoints: change.endpointOptions });
+              try {
+                result = change.apply();
+                positionHistory.retention = getHistoryRetention();
+                updateDefaultStatus();
+                expressSend(res, result.code, result.body, req.path);
+              } catch(e: any) {
+                app.debug(`error applying endpoint change (${e.message})`);
+                expressSendError(res, e, req.path);
+              }
+            }
+            done();
+          });
+        });
+      }
+    }
+
+    function getEndpoint(name: string): Endpoint {
+      var endpoint: Endpoint | undefined = pluginConfiguration.endpoints.find((e) => (e.name == name));
+      if (!endpoint) throw new Error('404');
+      return(endpoint);
+    }
+
+    /**
+     * Respond with the status carried by an Error whose message has the
+     * form 'NNN' or 'NNN: message' (the message becoming the response
+     * body) or, for any other Error, with status 500.
+     */
+    function expressSendError(res: any, e: any, debugPrefix: any = null) {
       app.debug(e.message)
-      expressSend(res, ((/^\d+$/.test(e.message))?parseInt(e.message):500), null, req.path)
+      let matches: RegExpMatchArray | null = e.message.match(/^(\d+)(?::\s*(.*))?$/);
+      expressSend(res, ((matches)?parseInt(matches[1]):500), ((matches) && (matches[2]))?{ message: matches[2] }:null, debugPrefix)
     }
 
-    function expressSend(res: any, code: number, body: Dictionary<StatusResponse> | null, debugPrefix: any = null) {
+    function expressSend(res: any, code: number, body: object | null, debugPrefix: any = null) {
       app.debug(`expressSend(res, ${code}, ${JSON.stringify(body)}, ${debugPrefix})...`);
-      const FETCH_RESPONSES: Dictionary<string | null> = { "200": null, "201": null, "400": "bad request", "403": "forbidden", "404": "not found", "503": "service unavailable (try again later)", "500": "internal server error" }
+      const FETCH_RESPONSES: Dictionary<string | null> = { "200": null, "201": null, "400": "bad request", "403": "forbidden", "404": "not found", "409": "conflict", "503": "service unavailable (try again later)", "500": "internal server error" }
       res.status(code).send((body)?body:((FETCH_RESPONSES['' + code])?FETCH_RESPONSES['' + code]:null))
       return(false);
     }
@@ -444,20 +2272,62 @@ interface SKPlugin {
 interface PluginConfiguration {
   myMMSI: string,
   myAisClass: string,
+  fleet: FleetMember[],
   endpoints: Endpoint[]
 }
 
+interface EndpointChange {
+  endpointOptions: any[],
+  transport: Transport | undefined,
+  apply: () => { code: number, body: object | null }
+}
+
 interface StatusResponse {
   ipAddress: string,
   port: number,
+  paused: boolean,
+  dryRun: boolean,
+  connection: TransportStatus | undefined,
+  health: HealthStatus,
+  profiles: Dictionary<ProfileStatus>,
+  vesselsFiltered: { self: number, others: number, fleet: number },
+  rules: VesselRuleStatus[] | undefined,
+  queue: QueueStatus | undefined,
+  budget: BudgetStatus | undefined,
   started: string,
   totalBytesTransmitted: number,
   positionSelfBytesPerHour: number,
   positionOthersBytesPerHour: number,
   staticSelfBytesPerHour: number,
-  staticOthersBytesPerHour: number
+  staticOthersBytesPerHour: number,
+  positionFleetBytesPerHour: number,
+  staticFleetBytesPerHour: number,
+  suppressed: { position: { self: number, others: number, fleet: number }, static: { self: number, others: number, fleet: number } },
+  passthrough: boolean,
+  relayedBytesPerHour: number
+}
+
+interface PreviewReport {
+  type: string,
+  group: string,
+  mmsi: string,
+  due: string,
+  lines: string[],
+  decoded: DecodedMessage[],
+  error: string | undefined
+}
+
+interface TrafficReport extends TrafficEntry {
+  decoded: DecodedMessage[]
+}
+
+interface SendResult {
+  bytes: number,
+  accepted: boolean
 }
 
 interface Dictionary<T> {
   [key: string]: T
 }
+
+type StatisticsReport = Exclude<keyof Statistics, 'started' | 'totalBytes'>;
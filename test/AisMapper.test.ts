@@ -0,0 +1,217 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import { AisEncode, AisEncodeOptions } from 'ggencoder';
+import { FieldIssue, MappingResult, NOT_AVAILABLE, mapPosition, radsPerSecondToRot, rotToRadsPerSecond } from '../src/AisMapper';
+import { decodeReport } from '../src/AisDecoder';
+
+const MMSI: string = '244123456';
+
+/**
+ * Make a Signal K vessel with a valid position and the given
+ * navigation values.
+ */
+function vessel(navigation: { [path: string]: any }): any {
+  var retval: any = { mmsi: MMSI, navigation: { position: { value: { latitude: 52.3702, longitude: 4.8952 } } } };
+
+  Object.keys(navigation).forEach((path) => { retval.navigation[path] = { value: navigation[path] }; });
+  return(retval);
+}
+
+function degPerMinuteToRadsPerSecond(dpm: number): number {
+  return(dpm * Math.PI / (180 * 60));
+}
+
+function issue(mapping: MappingResult, field: string): FieldIssue | undefined {
+  return(mapping.issues.find((i) => (i.field == field)));
+}
+
+/**
+ * Encode mapped position report options as a class A position report
+ * (type 1, which carries every mapped field) and decode the result.
+ */
+function roundTrip(options: AisEncodeOptions): { [name: string]: any } {
+  var encoded: any = new AisEncode(Object.assign({ aistype: 1, repeat: 0 }, options));
+
+  assert.ok(encoded.valid, 'report could not be encoded');
+  return(decodeReport([ encoded.nmea ])[0].fields);
+}
+
+describe('mapPosition', () => {
+
+  describe('heading', () => {
+
+    it('converts radians to whole degrees', () => {
+      assert.strictEqual(mapPosition(vessel({ headingTrue: Math.PI / 2 })).options!.hdg, 90);
+      assert.strictEqual(mapPosition(vessel({ headingTrue: 2.1 })).options!.hdg, 120);
+    });
+
+    it('reports a full turn as 0 degrees', () => {
+      assert.strictEqual(mapPosition(vessel({ headingTrue: (2 * Math.PI) - 0.001 })).options!.hdg, 0);
+    });
+
+    it('normalises headings outside 0..2pi with a reason', () => {
+      var mapping: MappingResult = mapPosition(vessel({ headingTrue: -Math.PI / 2 }));
+
+      assert.strictEqual(mapping.options!.hdg, 270);
+      assert.deepStrictEqual(issue(mapping, 'hdg'), { field: 'hdg', path: 'navigation.headingTrue.value', value: -Math.PI / 2, action: 'clamped', reason: 'outside the range 0..2pi radians (normalised)' });
+    });
+
+    it('uses 511 when heading is missing or not a number', () => {
+      var mapping: MappingResult = mapPosition(vessel({ headingTrue: 'north' }));
+
+      assert.strictEqual(mapPosition(vessel({})).options!.hdg, NOT_AVAILABLE.HEADING);
+      assert.strictEqual(mapping.options!.hdg, 511);
+      assert.deepStrictEqual(issue(mapping, 'hdg'), { field: 'hdg', path: 'navigation.headingTrue.value', value: 'north', action: 'rejected', reason: 'not a number' });
+    });
+
+    it('survives encoding', () => {
+      assert.strictEqual(roundTrip(<AisEncodeOptions>mapPosition(vessel({ headingTrue: 3 * Math.PI / 2 })).options).hdg, 270);
+    });
+
+  });
+
+  describe('rate of turn', () => {
+
+    it('encodes rad/s as 4.733 * sqrt(degrees per minute)', () => {
+      assert.strictEqual(radsPerSecondToRot(degPerMinuteToRadsPerSecond(5)), 11);
+      assert.strictEqual(radsPerSecondToRot(degPerMinuteToRadsPerSecond(100)), 47);
+    });
+
+    it('keeps the sign of the turn', () => {
+      assert.strictEqual(radsPerSecondToRot(degPerMinuteToRadsPerSecond(-5)), -11);
+      assert.strictEqual(radsPerSecondToRot(degPerMinuteToRadsPerSecond(-100)), -47);
+      assert.strictEqual(roundTrip(<AisEncodeOptions>mapPosition(vessel({ rateOfTurn: degPerMinuteToRadsPerSecond(-100) })).options).rot, -47);
+      assert.strictEqual(roundTrip(<AisEncodeOptions>mapPosition(vessel({ rateOfTurn: 0 })).options).rot, 0);
+    });
+
+    it('decodes to the original rate within the resolution of the encoding', () => {
+      [ 1, 10, 100, 500, -1, -10, -100, -500 ].forEach((dpm) => {
+        let rps: number = degPerMinuteToRadsPerSecond(dpm);
+        let decoded: number = rotToRadsPerSecond(radsPerSecondToRot(rps));
+
+        assert.ok(Math.abs(decoded - rps) <= (Math.abs(rps) * 0.1) + degPerMinuteToRadsPerSecond(0.1), `${dpm} degrees per minute decoded as ${decoded * 180 * 60 / Math.PI}`);
+      });
+    });
+
+    it('clamps rates of 708 degrees per minute and more to +/-126 with a reason', () => {
+      var right: MappingResult = mapPosition(vessel({ rateOfTurn: degPerMinuteToRadsPerSecond(720) }));
+      var left: MappingResult = mapPosition(vessel({ rateOfTurn: degPerMinuteToRadsPerSecond(-5000) }));
+
+      assert.strictEqual(right.options!.rot, 126);
+      assert.strictEqual(left.options!.rot, -126);
+      assert.deepStrictEqual(issue(right, 'rot'), { field: 'rot', path: 'navigation.rateOfTurn.value', value: degPerMinuteToRadsPerSecond(720), action: 'clamped', reason: 'exceeds 709 degrees per minute' });
+      assert.strictEqual(issue(left, 'rot')!.action, 'clamped');
+      assert.strictEqual(issue(mapPosition(vessel({ rateOfTurn: degPerMinuteToRadsPerSecond(700) })), 'rot'), undefined);
+    });
+
+    it('never uses +/-127, which mean that no turn indicator is available', () => {
+      [ 708, 709, 710, 1000, 1e6 ].forEach((dpm) => {
+        assert.strictEqual(Math.abs(radsPerSecondToRot(degPerMinuteToRadsPerSecond(dpm))), 126, `${dpm}`);
+        assert.strictEqual(Math.abs(radsPerSecondToRot(degPerMinuteToRadsPerSecond(-dpm))), 126, `-${dpm}`);
+      });
+      assert.strictEqual(roundTrip(<AisEncodeOptions>mapPosition(vessel({ rateOfTurn: 100 })).options).rot, 126);
+      assert.strictEqual(roundTrip(<AisEncodeOptions>mapPosition(vessel({ rateOfTurn: -100 })).options).rot, -126);
+    });
+
+    it('uses the not available value (0x80, i.e. 128 or -128) when rate of turn is missing or not a number', () => {
+      var mapping: MappingResult = mapPosition(vessel({ rateOfTurn: null }));
+
+      assert.strictEqual(mapPosition(vessel({})).options!.rot, NOT_AVAILABLE.ROT);
+      assert.strictEqual(mapping.options!.rot, NOT_AVAILABLE.ROT);
+      assert.strictEqual((<number>NOT_AVAILABLE.ROT) & 0xff, 128);
+      assert.deepStrictEqual(issue(mapping, 'rot'), { field: 'rot', path: 'navigation.rateOfTurn.value', value: null, action: 'rejected', reason: 'not a number' });
+      assert.strictEqual(roundTrip(<AisEncodeOptions>mapPosition(vessel({})).options).rot & 0xff, 128);
+    });
+
+  });
+
+  describe('speed and course over ground', () => {
+
+    it('converts m/s to knots at a resolution of 0.1', () => {
+      var mapping: MappingResult = mapPosition(vessel({ speedOverGround: 5 }));
+
+      assert.strictEqual(mapping.options!.sog, 9.7);
+      assert.strictEqual(roundTrip(<AisEncodeOptions>mapping.options).sog, 9.7);
+    });
+
+    it('clamps speeds above 102.2 knots with a reason', () => {
+      var mapping: MappingResult = mapPosition(vessel({ speedOverGround: 60 }));
+
+      assert.strictEqual(mapping.options!.sog, 102.2);
+      assert.deepStrictEqual(issue(mapping, 'sog'), { field: 'sog', path: 'navigation.speedOverGround.value', value: 60, action: 'clamped', reason: 'exceeds 102.2 knots' });
+    });
+
+    it('rejects negative speeds and uses 102.3 when speed is not available', () => {
+      var mapping: MappingResult = mapPosition(vessel({ speedOverGround: -1 }));
+
+      assert.strictEqual(mapping.options!.sog, NOT_AVAILABLE.SOG);
+      assert.deepStrictEqual(issue(mapping, 'sog'), { field: 'sog', path: 'navigation.speedOverGround.value', value: -1, action: 'rejected', reason: 'not a non-negative number' });
+      assert.strictEqual(mapPosition(vessel({})).options!.sog, 102.3);
+    });
+
+    it('converts course from radians to degrees at a resolution of 0.1', () => {
+      var mapping: MappingResult = mapPosition(vessel({ courseOverGroundTrue: 123.4 * Math.PI / 180 }));
+
+      assert.strictEqual(mapping.options!.cog, 123.4);
+      assert.strictEqual(roundTrip(<AisEncodeOptions>mapping.options).cog, 123.4);
+      assert.strictEqual(mapPosition(vessel({ courseOverGroundTrue: 2 * Math.PI })).options!.cog, 0);
+    });
+
+    it('normalises courses outside 0..2pi and uses 360 when course is not available', () => {
+      var mapping: MappingResult = mapPosition(vessel({ courseOverGroundTrue: 3 * Math.PI }));
+
+      assert.strictEqual(mapping.options!.cog, 180);
+      assert.strictEqual(issue(mapping, 'cog')!.action, 'clamped');
+      assert.strictEqual(mapPosition(vessel({})).options!.cog, NOT_AVAILABLE.COG);
+    });
+
+  });
+
+  describe('position and state', () => {
+
+    it('cannot report a vessel without a valid position', () => {
+      var mapping: MappingResult = mapPosition({ mmsi: MMSI, navigation: { position: { value: { latitude: 95, longitude: 4.8952 } } } });
+
+      assert.strictEqual(mapping.options, undefined);
+      assert.deepStrictEqual(issue(mapping, 'lat'), { field: 'lat', path: 'navigation.position.value.latitude', value: 95, action: 'rejected', reason: 'not a number in the range -90..90' });
+      assert.strictEqual(mapPosition({ mmsi: MMSI, navigation: {} }).options, undefined);
+    });
+
+    it('maps navigation state and rejects unknown states', () => {
+      var mapping: MappingResult = mapPosition(vessel({ state: 'drifting' }));
+
+      assert.strictEqual(mapPosition(vessel({ state: 'moored' })).options!.navstatus, 5);
+      assert.strictEqual(mapping.options!.navstatus, NOT_AVAILABLE.NAVSTATUS);
+      assert.deepStrictEqual(issue(mapping, 'navstatus'), { field: 'navstatus', path: 'navigation.state.value', value: 'drifting', action: 'rejected', reason: 'not a recognised value' });
+    });
+
+    it('records no issues for a complete and valid vessel', () => {
+      var mapping: MappingResult = mapPosition(vessel({ speedOverGround: 3, courseOverGroundTrue: 1, headingTrue: 1, rateOfTurn: 0.001, state: 'sailing', specialManeuver: 'not engaged' }));
+      var decoded: { [name: string]: any } = roundTrip(<AisEncodeOptions>mapping.options);
+
+      assert.deepStrictEqual(mapping.issues, []);
+      assert.strictEqual(decoded.mmsi, MMSI);
+      assert.strictEqual(decoded.lat, 52.3702);
+      assert.strictEqual(decoded.lon, 4.8952);
+      assert.strictEqual(decoded.navstatus, 8);
+      assert.strictEqual(decoded.smi, 1);
+    });
+
+  });
+
+});
@@ -0,0 +1,86 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import { ChangeFilter } from '../src/ChangeFilter';
+import type { Position } from '../src/GeoFilter';
+
+const MMSI: string = '244123456';
+const HERE: Position = { latitude: 52.3702, longitude: 4.8952 };
+const NEARBY: Position = { latitude: 52.3703, longitude: 4.8952 };
+const FAR: Position = { latitude: 52.3802, longitude: 4.8952 };
+const STATIC: string[] = [ '!AIVDM,1,1,,A,H3P7@hP4pU8F0HTpN0000000000,2*51' ];
+const CHANGED: string[] = [ '!AIVDM,1,1,,A,H3P7@hP4pU8F0HTpN0000000001,2*50' ];
+
+/**
+ * Make a ChangeFilter with a 50m minimum distance and a one hour
+ * keep-alive.
+ */
+function filter(): ChangeFilter {
+  return(new ChangeFilter({ minimumDistance: 50, keepAlive: 3600 }));
+}
+
+describe('ChangeFilter', () => {
+
+  describe('position reports', () => {
+
+    it('accepts the first report of a vessel', () => {
+      assert.strictEqual(filter().acceptsPosition(MMSI, HERE, 0), true);
+    });
+
+    it('keeps accepting a report which was never recorded as sent', () => {
+      var changeFilter: ChangeFilter = filter();
+
+      assert.strictEqual(changeFilter.acceptsPosition(MMSI, HERE, 0), true);
+      assert.strictEqual(changeFilter.acceptsPosition(MMSI, HERE, 1000), true);
+      assert.strictEqual(changeFilter.acceptsStatic(MMSI, STATIC, 0), true);
+      assert.strictEqual(changeFilter.acceptsStatic(MMSI, STATIC, 1000), true);
+    });
+
+    it('rejects a vessel which has moved less than the minimum distance since its last recorded report', () => {
+      var changeFilter: ChangeFilter = filter();
+
+      changeFilter.recordPosition(MMSI, HERE, 0);
+      assert.strictEqual(changeFilter.acceptsPosition(MMSI, NEARBY, 1000), false);
+      assert.strictEqual(changeFilter.acceptsPosition(MMSI, FAR, 1000), true);
+      assert.strictEqual(changeFilter.acceptsPosition('244000001', HERE, 1000), true);
+    });
+
+    it('accepts an unchanged position when forced or once the keep-alive has elapsed', () => {
+      var changeFilter: ChangeFilter = filter();
+
+      changeFilter.recordPosition(MMSI, HERE, 0);
+      assert.strictEqual(changeFilter.acceptsPosition(MMSI, HERE, 1000, true), true);
+      assert.strictEqual(changeFilter.acceptsPosition(MMSI, HERE, 3600000), true);
+    });
+
+  });
+
+  describe('static data reports', () => {
+
+    it('rejects an unchanged report until the keep-alive has elapsed', () => {
+      var changeFilter: ChangeFilter = filter();
+
+      changeFilter.recordStatic(MMSI, STATIC, 0);
+      assert.strictEqual(changeFilter.acceptsStatic(MMSI, STATIC, 1000), false);
+      assert.strictEqual(changeFilter.acceptsStatic(MMSI, CHANGED, 1000), true);
+      assert.strictEqual(changeFilter.acceptsStatic(MMSI, STATIC, 1000, true), true);
+      assert.strictEqual(changeFilter.acceptsStatic(MMSI, STATIC, 3600000), true);
+    });
+
+  });
+
+});
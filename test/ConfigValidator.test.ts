@@ -0,0 +1,192 @@
+/**
+ * Copyright 2024 Paul Reeve <preeve@pdjr.eu>
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from 'assert';
+import { ConfigDiagnostic, validateConfiguration, validateEndpoint } from '../src/ConfigValidator';
+
+/**
+ * Default endpoint options as supplied by the plugin.
+ */
+const DEFAULTS: any = { POSITION_UPDATE_INTERVAL: 5, STATIC_DATA_UPDATE_INTERVAL: 15, EXPIRY_INTERVAL: 15, MINIMUM_REPORT_INTERVAL: '10s', MAXIMUM_REPORT_INTERVAL: '15m', ADAPTIVE_SPEED_THRESHOLD: 2, ADAPTIVE_COURSE_THRESHOLD: 15, ADAPTIVE_HEADING_THRESHOLD: 15, RECONNECT_MINIMUM_DELAY: 1, RECONNECT_MAXIMUM_DELAY: 300, KEEPALIVE_DELAY: 60, MAX_BUFFERED_BYTES: 65536, QUEUE_MAX_BYTES: 1048576, QUEUE_MAX_AGE: '24h', UNCHANGED_KEEP_ALIVE: '1h', MULTICAST_TTL: 1, RESOLVE_INTERVAL: '10m', HEALTH_WARN_ERRORS: 3, HEALTH_ALERT_ERRORS: 10, HEALTH_SILENCE: '1h', FILE_MAX_SIZE: 1048576, FILE_MAX_FILES: 5, TRAFFIC_LOG_SIZE: 50 };
+
+const ENDPOINT: any = { name: 'MarineTraffic', ipAddress: '5.9.207.224', port: 10000 };
+
+function diagnostic(diagnostics: ConfigDiagnostic[], path: string): ConfigDiagnostic {
+  var retval: ConfigDiagnostic | undefined = diagnostics.find((d) => (d.path == path));
+
+  assert.ok(retval, `no diagnostic at '${path}' in ${JSON.stringify(diagnostics)}`);
+  return(retval);
+}
+
+describe('validateConfiguration', () => {
+
+  describe('valid configurations', () => {
+
+    it('accepts a minimal configuration without diagnostics', () => {
+      var validation = validateConfiguration({ endpoints: [ ENDPOINT ] }, DEFAULTS);
+
+      assert.deepStrictEqual(validation.diagnostics, []);
+      assert.deepStrictEqual(validation.configuration, { endpoints: [ ENDPOINT ] });
+    });
+
+    it('accepts a configuration using vessel groups, profiles and a file endpoint', () => {
+      var validation = validateConfiguration({
+        positionUpdateInterval: '30s',
+        myVessel: { positionUpdateInterval: [ 1, 5 ], profiles: [ { name: 'moored', when: [ { path: 'navigation.state', operator: '==', value: 'moored' } ], positionUpdateInterval: '15m' } ], privacy: { gridSize: 0.01 } },
+        otherVessels: { expiryInterval: '10m', rules: [ { action: 'exclude', mmsiPrefix: [ '970' ] } ] },
+        endpoints: [ ENDPOINT, { name: 'capture', protocol: 'file', path: 'capture/ais.log', rotate: { maxFiles: 0 } } ]
+      }, DEFAULTS);
+
+      assert.deepStrictEqual(validation.diagnostics, []);
+    });
+
+  });
+
+  describe('legacy property names', () => {
+
+    it('migrates legacy names to their current names', () => {
+      var validation = validateConfiguration({ updateIntervalSelector: 'navigation.state', myVessel: { staticUpdateIntervals: [ 15, 60 ] }, endpoints: [ ENDPOINT ] }, DEFAULTS);
+
+      assert.strictEqual(validation.configuration.updateIntervalIndexPath, 'navigation.state');
+      assert.strictEqual(validation.configuration.updateIntervalSelector, undefined);
+      assert.deepStrictEqual(validation.configuration.myVessel, { staticUpdateInterval: [ 15, 60 ] });
+      assert.deepStrictEqual(diagnostic(validation.diagnostics, 'updateIntervalSelector'), { severity: 'warning', path: 'updateIntervalSelector', message: 'legacy or misspelt name for \'updateIntervalIndexPath\' (migrated)' });
+      assert.strictEqual(diagnostic(validation.diagnostics, 'myVessel.staticUpdateIntervals').severity, 'warning');
+    });
+
+    it('migrates the misspelt legacy name used by early documentation', () => {
+      var validation = validateConfiguration({ endpoints: [ Object.assign({ upateIntervalSelector: 'navigation.state' }, ENDPOINT) ] }, DEFAULTS);
+
+      assert.strictEqual(validation.configuration.endpoints[0].updateIntervalIndexPath, 'navigation.state');
+      assert.strictEqual(diagnostic(validation.diagnostics, 'endpoints[0].upateIntervalSelector').severity, 'warning');
+    });
+
+    it('ignores a legacy name whose current name is also defined', () => {
+      var validation = validateConfiguration({ myVessel: { positionUpdateInterval: 5, positionUpdateIntervals: [ 1, 2 ] }, endpoints: [ ENDPOINT ] }, DEFAULTS);
+
+      assert.deepStrictEqual(validation.configuration.myVessel, { positionUpdateInterval: 5 });
+      assert.strictEqual(diagnostic(validation.diagnostics, 'myVessel.positionUpdateIntervals').message, 'legacy name for \'positionUpdateInterval\' which is also defined (ignored)');
+    });
+
+  });
+
+  describe('misspelt and unknown properties', () => {
+
+    it('migrates names which differ from a current name only in case', () => {
+      var validation = validateConfiguration({ endpoints: [ { name: 'a', ipaddress: '127.0.0.1', Port: 1234 } ] }, DEFAULTS);
+
+      assert.deepStrictEqual(validation.configuration.endpoints[0], { name: 'a', ipAddress: '127.0.0.1', port: 1234 });
+      assert.strictEqual(diagnostic(validation.diagnostics, 'endpoints[0].ipaddress').message, 'legacy or misspelt name for \'ipAddress\' (migrated)');
+      assert.strictEqual(diagnostic(validation.diagnostics, 'endpoints[0].Port').severity, 'warning');
+      assert.ok(validation.diagnostics.every((d) => (d.severity == 'warning')));
+    });
+
+    it('ignores unknown properties with a warning', () => {
+      var validation = validateConfiguration({ colour: 'red', otherVessels: { colour: 'blue' }, endpoints: [ ENDPOINT ] }, DEFAULTS);
+
+      assert.strictEqual(validation.configuration.colour, undefined);
+      assert.deepStrictEqual(diagnostic(validation.diagnostics, 'colour'), { severity: 'warning', path: 'colour', message: 'unknown property (ignored)' });
+      assert.strictEqual(diagnostic(validation.diagnostics, 'otherVessels.colour').severity, 'warning');
+    });
+
+    it('does not accept properties outside the groups which use them', () => {
+      var validation = validateConfiguration({ atons: { privacy: {} }, endpoints: [ ENDPOINT ] }, DEFAULTS);
+
+      assert.strictEqual(diagnostic(validation.diagnostics, 'atons.privacy').message, 'unknown property (ignored)');
+    });
+
+  });
+
+  describe('errors', () => {
+
+    it('rejects a configuration which is not an object', () => {
+      assert.deepStrictEqual(validateConfiguration([], DEFAULTS).diagnostics, [ { severity: 'error', path: '', message: 'configuration is not an object' } ]);
+    });
+
+    it('requires endpoints', () => {
+      assert.deepStrictEqual(validateConfiguration({}, DEFAULTS).diagnostics, [ { severity: 'error', path: 'endpoints', message: 'missing \'endpoints\' property' } ]);
+    });
+
+    it('locates invalid values by their path', () => {
+      var validation = validateConfiguration({ myVessel: { expiryInterval: '3 fortnights' }, endpoints: [ { ipAddress: '127.0.0.1', port: 0 }, { name: 'b', port: 1 } ] }, DEFAULTS);
+
+      assert.deepStrictEqual(diagnostic(validation.diagnostics, 'myVessel.expiryInterval'), { severity: 'error', path: 'myVessel.expiryInterval', message: 'invalid interval (3 fortnights)' });
+      assert.strictEqual(diagnostic(validation.diagnostics, 'endpoints[0].port').message, 'invalid port number (0)');
+      assert.strictEqual(diagnostic(validation.diagnostics, 'endpoints[1].ipAddress').message, 'missing \'ipAddress\' property');
+    });
+
+    it('locates errors in migrated properties by their current name', () => {
+      var validation = validateConfiguration({ myVessel: { staticUpdateIntervals: 'often' }, endpoints: [ ENDPOINT ] }, DEFAULTS);
+
+      assert.strictEqual(diagnostic(validation.diagnostics, 'myVessel.staticUpdateIntervals').severity, 'warning');
+      assert.strictEqual(diagnostic(validation.diagnostics, 'myVessel.staticUpdateInterval').severity, 'error');
+    });
+
+    it('rejects duplicate endpoint names', () => {
+      var validation = validateConfiguration({ endpoints: [ ENDPOINT, Object.assign({}, ENDPOINT, { port: 10001 }) ] }, DEFAULTS);
+
+      assert.deepStrictEqual(validation.diagnostics, [ { severity: 'error', path: 'endpoints[1]', message: 'duplicate endpoint name \'MarineTraffic\'' } ]);
+    });
+
+    it('rejects endpoint names which would share files and notification paths', () => {
+      var validation = validateConfiguration({ endpoints: [ Object.assign({}, ENDPOINT, { name: 'a.b' }), Object.assign({}, ENDPOINT, { name: 'a_b', port: 10001 }) ] }, DEFAULTS);
+
+      assert.deepStrictEqual(validation.diagnostics, [ { severity: 'error', path: 'endpoints[1]', message: 'endpoint name \'a_b\' clashes with \'a.b\' (both are stored as \'a_b\')' } ]);
+    });
+
+    it('reports errors found when the endpoint is built', () => {
+      var validation = validateConfiguration({ endpoints: [ Object.assign({ minimumReportInterval: '1h', maximumReportInterval: '1m' }, ENDPOINT) ] }, DEFAULTS);
+
+      assert.deepStrictEqual(validation.diagnostics, [ { severity: 'error', path: 'endpoints[0]', message: '\'minimumReportInterval\' exceeds \'maximumReportInterval\'' } ]);
+    });
+
+    it('rejects file endpoints whose log file would leave the data directory', () => {
+      [ '../../settings.json', '/etc/passwd', 'capture/../../x.log' ].forEach((path) => {
+        var validation = validateConfiguration({ endpoints: [ { name: 'capture', protocol: 'file', path: path } ] }, DEFAULTS);
+
+        assert.strictEqual(diagnostic(validation.diagnostics, 'endpoints[0]').severity, 'error', path);
+      });
+    });
+
+    it('reports fleet errors at the fleet property', () => {
+      var validation = validateConfiguration({ fleet: [ '244000001', '244000001' ], endpoints: [ ENDPOINT ] }, DEFAULTS);
+
+      assert.strictEqual(diagnostic(validation.diagnostics, 'fleet').severity, 'error');
+    });
+
+  });
+
+});
+
+describe('validateEndpoint', () => {
+
+  it('migrates and checks a single endpoint definition', () => {
+    var validation = validateEndpoint({ ipaddress: '127.0.0.1' }, { endpoints: [] }, DEFAULTS);
+
+    assert.deepStrictEqual(validation.configuration, { ipAddress: '127.0.0.1' });
+    assert.deepStrictEqual(validation.diagnostics, [
+      { severity: 'warning', path: 'ipaddress', message: 'legacy or misspelt name for \'ipAddress\' (migrated)' },
+      { severity: 'error', path: 'port', message: 'missing \'port\' property' }
+    ]);
+  });
+
+  it('builds the endpoint with options inherited from the plugin configuration', () => {
+    var validation = validateEndpoint(ENDPOINT, { minimumReportInterval: '1h', endpoints: [] }, DEFAULTS);
+
+    assert.deepStrictEqual(validation.diagnostics, [ { severity: 'error', path: '', message: '\'minimumReportInterval\' exceeds \'maximumReportInterval\'' } ]);
+  });
+
+});